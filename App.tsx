@@ -1,21 +1,87 @@
 
-import React, { useState, useMemo, useRef } from 'react';
-import { Search, Package, Info, ChevronRight, DollarSign, Box, Tag, Filter, Upload, Database, RefreshCcw, Copy, CheckCircle2, FileUp, AlertCircle, Trash2 } from 'lucide-react';
-import { ProductGroup, ProductVariant } from './types';
-import { parseCSV, formatCurrency } from './utils';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { Search, Package, Info, ChevronRight, DollarSign, Box, Tag, Filter, Upload, Database, RefreshCcw, Copy, CheckCircle2, FileUp, AlertCircle, Trash2, ShoppingCart, Plus, TriangleAlert, Percent, MapPin, Puzzle, Hash, History, Columns2, BarChart3, Users, UserCheck, Presentation, Lock, HardDrive, Shapes, ClipboardList, List, FolderTree, Layers } from 'lucide-react';
+import { ProductGroup, ProductVariant, Quote, ImportResult, CatalogVersion, AppView, CustomerAccount, PriceTier } from './types';
+import { readCSVRows, buildVariantIndex, formatCurrency, isHazmat } from './utils';
+import { ColumnMapping, resolveColumnMapping, getMissingColumns, saveColumnMapping } from './columns';
+import { createEmptyQuote, saveQuote, addQuoteLine, priceQuoteItem } from './quote';
+import QuotePanel from './components/QuotePanel';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import ImportReviewDialog from './components/ImportReviewDialog';
+import HistoryPanel from './components/HistoryPanel';
+import FilterPanel from './components/FilterPanel';
+import ComparePanel from './components/ComparePanel';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import CustomerPanel from './components/CustomerPanel';
+import PresentationDialog from './components/PresentationDialog';
+import AccessoryPanel from './components/AccessoryPanel';
+import SheetPickerDialog from './components/SheetPickerDialog';
+import LookupPanel from './components/LookupPanel';
+import CommandPalette from './components/CommandPalette';
+import BrowseTree from './components/BrowseTree';
+import DilutionPanel from './components/DilutionPanel';
+import { loadComparedSkus, saveComparedSkus, toggleComparedSku, buildComparisonRow, MAX_COMPARE_ITEMS } from './compare';
+import { SearchResult, buildHighlightPattern } from './search';
+import { CatalogProgress, createCatalogWorker } from './catalogWorker';
+import { useDebouncedValue, useVirtualRows } from './hooks';
+import { AppRoute, parseRoute, serializeRoute, isNavigation } from './routing';
+import { lineLabel } from './hierarchy';
+import { CatalogFilters, createEmptyFilters, applyFilters, computeFacetCounts, countActiveFilters, variantMatchesFilters } from './filters';
+import { addCatalogVersion } from './history';
+import { classificationLabel } from './sections';
+import { PaletteCommand, isEditableTarget, isPaletteShortcut, moveListIndex, countGridColumns } from './keyboard';
+import { WorkbookSheet, SheetSummary, readWorkbook, summarizeSheets, pickCatalogSheet, workbookToCSV, isWorkbookFile } from './xlsx';
+import { StorageUsage, loadStoredState, saveCatalog, clearCatalog, requestPersistentStorage, getStorageUsage, formatBytes } from './storage';
+import { sortByPackSize, pricePerGallon, pricePerLiter } from './packaging';
+import { FreightRateTable, loadFreightRates, saveFreightRates } from './shipping';
+import { DilutionMap, loadDilutionMap, saveDilutionMap } from './dilution';
+import { InfoCodeField, decodeInfoCode, checkInfoCode, formatDiscountTens, formatDecodedPrice } from './infoCode';
+import {
+  AccessoryMap, loadAccessoryMap, saveAccessoryMap, linkAccessoryCode, unlinkAccessorySku,
+  buildParentIndex, recommendAccessories, findMissingAccessories,
+} from './accessories';
+import {
+  PricingVisibilityContext, getPricingVisibility, isTierVisible, isViewVisible,
+  loadPresentationActive, hasPresentationPin, startPresentation, stopPresentation,
+} from './presentation';
+import { loadCustomers, saveCustomers, loadActiveCustomerId, saveActiveCustomerId, resolveCustomerPrice, EFFECTIVE_SOURCE_LABELS } from './customers';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
-const STORAGE_KEY = 'state_chemical_catalog_v2';
+interface PendingMapping {
+  fileName: string;
+  text: string;
+  header: string[];
+  sampleRow: string[];
+  mapping: ColumnMapping;
+}
 
-// Helper component for highlighting text matches
-const HighlightText: React.FC<{ text: string; term: string }> = ({ text, term }) => {
-  if (!term.trim()) return <span>{text}</span>;
-  const safeTerm = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  const parts = text.split(new RegExp(`(${safeTerm})`, 'gi'));
+interface PendingWorkbook {
+  fileName: string;
+  sheets: WorkbookSheet[];
+  summaries: SheetSummary[];
+  initialIndex: number;
+}
+
+interface PendingImport {
+  fileName: string;
+  text: string;
+  result: ImportResult;
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+// Virtualized rows have fixed heights: card height plus the gap below it
+const PRODUCT_ROW_HEIGHT = 128;
+const VARIANT_ROW_HEIGHT = 144;
+
+// Helper component for highlighting each matched search token
+const HighlightText: React.FC<{ text: string; pattern: RegExp | null }> = ({ text, pattern }) => {
+  if (!pattern) return <span>{text}</span>;
+  // Splitting on a capturing pattern puts the matches at the odd indexes
+  const parts = text.split(pattern);
   return (
     <span>
       {parts.map((part, i) => 
-        part.toLowerCase() === term.toLowerCase() ? (
+        i % 2 === 1 && part ? (
           <mark key={i} className="bg-yellow-200 text-slate-900 rounded-sm px-0.5 no-underline">
             {part}
           </mark>
@@ -28,72 +94,468 @@ const HighlightText: React.FC<{ text: string; term: string }> = ({ text, term })
 };
 
 const App: React.FC = () => {
-  // Initialize state from localStorage only.
-  const [csvData, setCsvData] = useState<string | null>(() => {
-    return localStorage.getItem(STORAGE_KEY);
-  });
+  // Catalog and quote are read from IndexedDB after mount; nothing renders or saves until that finishes
+  const [storageReady, setStorageReady] = useState(false);
+  const [csvData, setCsvData] = useState<string | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
   
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedGroup, setSelectedGroup] = useState<ProductGroup | null>(null);
-  const [selectedVariantIdx, setSelectedVariantIdx] = useState(0);
+  // Navigation state starts from the URL so shared links open on the same product and search
+  const [initialRoute] = useState<AppRoute>(() => parseRoute(window.location.search));
+  const [searchTerm, setSearchTerm] = useState(initialRoute.search);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(initialRoute.product);
+  const [selectedSku, setSelectedSku] = useState<string | null>(initialRoute.sku);
   const [copiedSku, setCopiedSku] = useState<string | null>(null);
+  const [view, setView] = useState<AppView>(initialRoute.view);
+  const [quote, setQuote] = useState<Quote>(() => createEmptyQuote());
+  const [quoteQty, setQuoteQty] = useState(1);
+  const [lookupText, setLookupText] = useState('');
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [historyRevision, setHistoryRevision] = useState(0);
+  const [filters, setFilters] = useState<CatalogFilters>(initialRoute.filters);
+  const [showFilters, setShowFilters] = useState(() => countActiveFilters(initialRoute.filters) > 0);
+  const [comparedSkus, setComparedSkus] = useState<string[]>(() => loadComparedSkus());
+  const [customers, setCustomers] = useState<CustomerAccount[]>(() => loadCustomers());
+  const [activeCustomerId, setActiveCustomerId] = useState<string | null>(() => loadActiveCustomerId());
+  const [accessoryMap, setAccessoryMap] = useState<AccessoryMap>(() => loadAccessoryMap());
+  const [freightRates, setFreightRates] = useState<FreightRateTable>(() => loadFreightRates());
+  const [dilutions, setDilutions] = useState<DilutionMap>(() => loadDilutionMap());
+  const [presenting, setPresenting] = useState(() => loadPresentationActive());
+  const [presentationDialog, setPresentationDialog] = useState<'start' | 'stop' | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [sidebarMode, setSidebarMode] = useState<'list' | 'tree'>('list');
+  // Keyboard cursor in the product list and variant grid; Enter commits it as the selection
+  const [listIndex, setListIndex] = useState(-1);
+  const [gridIndex, setGridIndex] = useState(-1);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const productListRef = useRef<HTMLDivElement>(null);
+  const productSpacerRef = useRef<HTMLDivElement>(null);
+  const variantGridRef = useRef<HTMLDivElement>(null);
+  const variantSpacerRef = useRef<HTMLDivElement>(null);
+  // Columns of the responsive variant grid, re-read on resize so virtual rows line up with the layout
+  const [variantColumns, setVariantColumns] = useState(1);
 
-  // Memoize parsed data
-  const productGroups = useMemo(() => {
-    if (!csvData) return [];
-    return parseCSV(csvData);
-  }, [csvData]);
-
-  const filteredGroups = useMemo(() => {
-    const term = searchTerm.toLowerCase().trim();
-    if (!term) return productGroups;
-
-    return productGroups.filter(group => {
-      const nameMatch = group.parentName.toLowerCase().includes(term);
-      const familyMatch = group.family.toLowerCase().includes(term);
-      const variantMatch = group.variants.some(v => 
-        v.sku.toLowerCase().includes(term) || 
-        v.description.toLowerCase().includes(term)
-      );
-      return nameMatch || familyMatch || variantMatch;
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch(() => undefined);
+  };
+
+  const catalogWorker = useMemo(createCatalogWorker, []);
+  useEffect(() => () => catalogWorker.terminate(), [catalogWorker]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredState(catalogWorker.parseCatalog).then(stored => {
+      if (cancelled) return;
+      setCsvData(stored.csv);
+      setQuote(stored.quote);
+      setStorageReady(true);
+      setHistoryRevision(r => r + 1);
+      requestPersistentStorage().catch(() => false).then(refreshStorageUsage);
     });
-  }, [productGroups, searchTerm]);
+    return () => { cancelled = true; };
+  }, [catalogWorker]);
+
+  useEffect(() => {
+    if (storageReady) saveQuote(quote).catch(() => undefined);
+  }, [quote, storageReady]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const currentRoute = useMemo<AppRoute>(() => ({
+    view,
+    product: selectedGroupId,
+    sku: selectedSku,
+    search: searchTerm,
+    filters,
+  }), [view, selectedGroupId, selectedSku, searchTerm, filters]);
+
+  const lastRoute = useRef<AppRoute>(initialRoute);
+  useEffect(() => {
+    const query = serializeRoute(currentRoute);
+    if (query !== window.location.search) {
+      const url = `${window.location.pathname}${query}${window.location.hash}`;
+      if (isNavigation(lastRoute.current, currentRoute)) {
+        window.history.pushState(null, '', url);
+      } else {
+        window.history.replaceState(null, '', url);
+      }
+    }
+    lastRoute.current = currentRoute;
+  }, [currentRoute]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.search);
+      lastRoute.current = route;
+      setView(route.view);
+      setSelectedGroupId(route.product);
+      setSelectedSku(route.sku);
+      setSearchTerm(route.search);
+      setFilters(route.filters);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    saveComparedSkus(comparedSkus);
+  }, [comparedSkus]);
+
+  useEffect(() => {
+    saveCustomers(customers);
+  }, [customers]);
+
+  useEffect(() => {
+    saveAccessoryMap(accessoryMap);
+  }, [accessoryMap]);
+
+  useEffect(() => {
+    saveFreightRates(freightRates);
+  }, [freightRates]);
+
+  useEffect(() => {
+    saveDilutionMap(dilutions);
+  }, [dilutions]);
+
+  useEffect(() => {
+    saveActiveCustomerId(activeCustomerId);
+  }, [activeCustomerId]);
+
+  // A deleted or never-imported account id simply turns customer pricing off
+  const activeCustomer = useMemo(
+    () => customers.find(c => c.id === activeCustomerId) || null,
+    [customers, activeCustomerId]
+  );
+
+  // Every price on screen goes through this, so presentation mode can't be bypassed by one component
+  const visibility = useMemo(() => getPricingVisibility(presenting, activeCustomer), [presenting, activeCustomer]);
+
+  const shownView: AppView = isViewVisible(visibility, view) ? view : 'catalog';
+
+  useEffect(() => {
+    if (!isViewVisible(visibility, view)) setView('catalog');
+    if (!isTierVisible(visibility, filters.priceTier)) setFilters(prev => ({ ...prev, priceTier: PriceTier.Standard }));
+  }, [visibility, view, filters.priceTier]);
+
+  const [productGroups, setProductGroups] = useState<ProductGroup[]>([]);
+  const [catalogProgress, setCatalogProgress] = useState<CatalogProgress | null>(null);
+
+  // The import the user just confirmed in the review dialog; its text is already parsed and only needs indexing
+  const confirmedImport = useRef<{ text: string; result: ImportResult } | null>(null);
+
+  // Parsed and indexed in the worker; the previous catalog stays on screen until the new one is ready
+  useEffect(() => {
+    if (!csvData) {
+      setProductGroups([]);
+      return;
+    }
+    let cancelled = false;
+    const onProgress = (p: CatalogProgress) => { if (!cancelled) setCatalogProgress(p); };
+    const confirmed = confirmedImport.current?.text === csvData ? confirmedImport.current.result : null;
+    setCatalogProgress(confirmed
+      ? { phase: 'indexing', done: 0, total: 0 }
+      : { phase: 'parsing', done: 0, total: csvData.length });
+    (confirmed
+      ? catalogWorker.indexImport(confirmed, onProgress)
+      : catalogWorker.importCatalog(csvData, { index: true, onProgress }).then(result => result.groups))
+      .then(groups => { if (!cancelled) setProductGroups(groups); })
+      .catch(err => { if (!cancelled) alert(err instanceof Error ? err.message : 'The catalog could not be read.'); })
+      .finally(() => { if (!cancelled) setCatalogProgress(null); });
+    return () => { cancelled = true; };
+  }, [csvData, catalogWorker]);
+
+  const variantIndex = useMemo(() => buildVariantIndex(productGroups), [productGroups]);
+
+  const comparisonRows = useMemo(() => comparedSkus.flatMap(sku => {
+    const variant = variantIndex.get(sku);
+    if (!variant) return [];
+    const group = productGroups.find(g => g.variants.includes(variant));
+    return group ? [buildComparisonRow(variant, group.parentName)] : [];
+  }), [comparedSkus, variantIndex, productGroups]);
+
+  // Clearing the box takes effect immediately; typing waits for a pause
+  const debouncedSearch = useDebouncedValue(searchTerm, SEARCH_DEBOUNCE_MS);
+  const searchQuery = searchTerm.trim() ? debouncedSearch.trim() : '';
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+
+  useEffect(() => {
+    if (!searchQuery) {
+      setSearchResults(null);
+      return;
+    }
+    let cancelled = false;
+    catalogWorker.search(searchQuery)
+      .then(results => { if (!cancelled && results) setSearchResults(results); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [searchQuery, productGroups, catalogWorker]);
+
+  // Results arrive ranked by relevance; with no query the catalog keeps its alphabetical order
+  const searchedGroups = useMemo(
+    () => (searchResults ? searchResults.map(r => r.group) : productGroups),
+    [searchResults, productGroups]
+  );
+
+  const highlightPattern = useMemo(
+    () => buildHighlightPattern(searchResults ? searchResults.flatMap(r => r.matchedTerms) : []),
+    [searchResults]
+  );
+
+  const filteredGroups = useMemo(() => applyFilters(searchedGroups, filters), [searchedGroups, filters]);
+  const facetCounts = useMemo(() => computeFacetCounts(searchedGroups, filters), [searchedGroups, filters]);
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Selection is kept by name and SKU so it survives catalog reloads and can be written to the URL
+  const selectedGroup = useMemo(
+    // Links from before groups had ids name only the parent
+    () => productGroups.find(g => g.id === selectedGroupId) || productGroups.find(g => g.parentName === selectedGroupId) || null,
+    [productGroups, selectedGroupId]
+  );
+
+  // Smallest pack first; the report lists sizes in whatever order they were entered
+  const sortedVariants = useMemo(
+    () => (selectedGroup ? sortByPackSize(selectedGroup.variants) : []),
+    [selectedGroup]
+  );
 
   const activeVariant = useMemo(() => {
     if (!selectedGroup) return null;
-    return selectedGroup.variants[selectedVariantIdx] || selectedGroup.variants[0];
-  }, [selectedGroup, selectedVariantIdx]);
+    return selectedGroup.variants.find(v => v.sku === selectedSku) || selectedGroup.variants[0];
+  }, [selectedGroup, selectedSku]);
+
+  const activeInfoCode = activeVariant ? decodeInfoCode(activeVariant.productInformationCode) : null;
+  const activeInfoCodeMismatches = useMemo(() => (activeVariant ? checkInfoCode(activeVariant) : []), [activeVariant]);
+
+  const customerPrice = useMemo(
+    () => (activeVariant && activeCustomer ? resolveCustomerPrice(activeVariant, activeCustomer) : null),
+    [activeVariant, activeCustomer]
+  );
+
+  const parentIndex = useMemo(() => buildParentIndex(productGroups), [productGroups]);
+
+  const accessoryRecommendations = useMemo(
+    () => (activeVariant && selectedGroup
+      ? recommendAccessories(activeVariant, selectedGroup, accessoryMap, variantIndex, parentIndex)
+      : null),
+    [activeVariant, selectedGroup, accessoryMap, variantIndex, parentIndex]
+  );
+
+  const missingAccessories = useMemo(
+    () => findMissingAccessories(quote, variantIndex, accessoryMap),
+    [quote, variantIndex, accessoryMap]
+  );
+
+  // Only internal users get the Floor check on the account's price
+  const customerPriceFlagged = visibility.showInternal && !!customerPrice?.belowFloor;
+
+  const families = useMemo(
+    () => Array.from(new Set(productGroups.map(g => g.family).filter(Boolean))).sort(),
+    [productGroups]
+  );
 
   const chartData = useMemo(() => {
     if (!activeVariant) return [];
     return [
-      { name: 'Standard', value: activeVariant.stdPrice, color: '#6366f1' },
-      { name: 'Floor', value: activeVariant.floorPrice, color: '#f59e0b' },
-      { name: 'Give', value: activeVariant.givePrice, color: '#10b981' },
-      { name: 'GSA', value: activeVariant.gsaPrice, color: '#ef4444' },
-    ];
-  }, [activeVariant]);
+      { tier: PriceTier.Standard, name: 'Standard', value: activeVariant.stdPrice, color: '#6366f1' },
+      { tier: PriceTier.Floor, name: 'Floor', value: activeVariant.floorPrice, color: '#f59e0b' },
+      { tier: PriceTier.Give, name: 'Give', value: activeVariant.givePrice, color: '#10b981' },
+      { tier: PriceTier.GSA, name: 'GSA', value: activeVariant.gsaPrice, color: '#ef4444' },
+    ].filter(entry => isTierVisible(visibility, entry.tier));
+  }, [activeVariant, visibility]);
+
+  useEffect(() => {
+    setListIndex(selectedGroup ? filteredGroups.indexOf(selectedGroup) : -1);
+  }, [filteredGroups, selectedGroup]);
+
+  useEffect(() => {
+    setGridIndex(activeVariant ? sortedVariants.indexOf(activeVariant) : -1);
+  }, [sortedVariants, activeVariant]);
+
+  const productRows = useVirtualRows(productSpacerRef, filteredGroups.length, PRODUCT_ROW_HEIGHT);
+  const variantRows = useVirtualRows(variantSpacerRef, Math.ceil(sortedVariants.length / variantColumns), VARIANT_ROW_HEIGHT);
+  const { scrollToRow: scrollToProductRow } = productRows;
+  const { scrollToRow: scrollToVariantRow } = variantRows;
+
+  useEffect(() => {
+    const grid = variantGridRef.current;
+    if (!grid) return;
+    const update = () => setVariantColumns(countGridColumns(grid));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(grid);
+    return () => observer.disconnect();
+  }, [selectedGroup, shownView]);
+
+  useEffect(() => scrollToProductRow(listIndex), [listIndex, scrollToProductRow]);
+  useEffect(() => scrollToVariantRow(Math.floor(gridIndex / variantColumns)), [gridIndex, variantColumns, scrollToVariantRow]);
 
   const handleSelectGroup = (group: ProductGroup) => {
-    setSelectedGroup(group);
-    setSelectedVariantIdx(0);
+    const match = searchResults?.find(r => r.group === group);
+    setSelectedGroupId(group.id);
+    setSelectedSku(match ? group.variants[match.matchedVariantIdx].sku : null);
+    setView('catalog');
+  };
+
+  // Lists a whole family (or line), dropping the search and any other filter that would hide part of it
+  const browseHierarchy = (productLine: string, family?: string) => {
+    setSearchTerm('');
+    setFilters(prev => ({
+      ...createEmptyFilters(),
+      priceTier: prev.priceTier,
+      productLines: productLine ? [productLine] : [],
+      families: family ? [family] : [],
+    }));
+    setSidebarMode('list');
+    setView('catalog');
+  };
+
+  const openSku = (sku: string) => {
+    const group = productGroups.find(g => g.variants.some(v => v.sku === sku));
+    if (!group) return;
+    setSelectedGroupId(group.id);
+    setSelectedSku(sku);
+    setView('catalog');
+  };
+
+  // Starting to price for an account also addresses the quote to it
+  const activateCustomer = (id: string | null) => {
+    setActiveCustomerId(id);
+    const account = customers.find(c => c.id === id);
+    if (account) {
+      setQuote(prev => ({ ...prev, customerName: account.name, tier: account.defaultTier, updatedAt: new Date().toISOString() }));
+    }
+  };
+
+  const submitPresentationPin = async (pin: string) => {
+    const ok = presentationDialog === 'start' ? await startPresentation(pin) : await stopPresentation(pin);
+    if (ok) {
+      setPresenting(presentationDialog === 'start');
+      setPresentationDialog(null);
+    }
+    return ok;
+  };
+
+  // Accessories go on at quantity 1; the rep adjusts them on the quote if an order needs more
+  const addToQuote = (variant: ProductVariant, accessorySkus: string[] = []) => {
+    setQuote(prev => accessorySkus.reduce(
+      (q, sku) => addQuoteLine(q, sku, 1),
+      addQuoteLine(prev, variant.sku, quoteQty)
+    ));
+    setQuoteQty(1);
+  };
+
+  const addLinesToQuote = (lines: { sku: string; quantity: number }[]) => {
+    setQuote(prev => lines.reduce((q, line) => addQuoteLine(q, line.sku, line.quantity), prev));
+    setView('quote');
+  };
+
+  const storeCatalog = (text: string) => {
+    setCsvData(text);
+    saveCatalog(text).then(refreshStorageUsage).catch(() => undefined);
+    setSelectedGroupId(null);
+  };
+
+  // Ask for a mapping only when required columns can't be matched by header name
+  const startImport = (fileName: string, text: string) => {
+    const [header = [], sampleRow = []] = readCSVRows(text, 2);
+    const mapping = resolveColumnMapping(header);
+    if (getMissingColumns(mapping).length > 0) {
+      setPendingMapping({ fileName, text, header, sampleRow, mapping });
+      return;
+    }
+    reviewImport(fileName, text, mapping);
+  };
+
+  // Workbooks are laid out like the CSV report so both go through the same import path and history
+  const importWorkbook = async (file: File) => {
+    try {
+      const sheets = await readWorkbook(await file.arrayBuffer());
+      const summaries = summarizeSheets(sheets);
+      const initialIndex = pickCatalogSheet(summaries);
+      if (summaries.filter(s => !s.sectionLabel && s.rowCount > 0).length > 1) {
+        setPendingWorkbook({ fileName: file.name, sheets, summaries, initialIndex });
+        return;
+      }
+      startImport(file.name, workbookToCSV(sheets, initialIndex));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'This workbook could not be read.');
+    }
+  };
+
+  const confirmSheet = (sheetIndex: number) => {
+    if (!pendingWorkbook) return;
+    const sheet = pendingWorkbook.sheets[sheetIndex];
+    startImport(`${pendingWorkbook.fileName} (${sheet.name})`, workbookToCSV(pendingWorkbook.sheets, sheetIndex));
+    setPendingWorkbook(null);
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
+    if (file && isWorkbookFile(file.name)) {
+      importWorkbook(file);
+    } else if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
         const text = e.target?.result as string;
-        if (text) {
-          setCsvData(text);
-          localStorage.setItem(STORAGE_KEY, text);
-          setSelectedGroup(null);
-        }
+        if (text) startImport(file.name, text);
       };
       reader.readAsText(file);
     }
+    event.target.value = '';
+  };
+
+  // Nothing replaces the stored catalog until the user has seen the validation report
+  const reviewImport = (fileName: string, text: string, mapping: ColumnMapping) => {
+    setCatalogProgress({ phase: 'parsing', done: 0, total: text.length });
+    catalogWorker.importCatalog(text, { mapping, onProgress: setCatalogProgress })
+      .then(result => setPendingImport({ fileName, text, result }))
+      .catch(err => alert(err instanceof Error ? err.message : 'The catalog could not be read.'))
+      .finally(() => setCatalogProgress(null));
+  };
+
+  const confirmMapping = (mapping: ColumnMapping) => {
+    if (!pendingMapping) return;
+    saveColumnMapping(pendingMapping.header, mapping);
+    reviewImport(pendingMapping.fileName, pendingMapping.text, mapping);
+    setPendingMapping(null);
+  };
+
+  const confirmImport = () => {
+    if (!pendingImport) return;
+    const { fileName, text, result } = pendingImport;
+    confirmedImport.current = { text, result };
+    storeCatalog(text);
+    setPendingImport(null);
+    addCatalogVersion({
+      fileName,
+      uploadedAt: new Date().toISOString(),
+      csv: text,
+      productCount: result.groups.length,
+      skuCount: result.skuCount,
+    })
+      .then(() => {
+        setHistoryRevision(r => r + 1);
+        refreshStorageUsage();
+      })
+      .catch(() => undefined);
+  };
+
+  const restoreVersion = (version: CatalogVersion) => {
+    if (confirm(`Replace the current catalog with the ${version.fileName} upload?`)) {
+      storeCatalog(version.csv);
+      setView('catalog');
+    }
   };
 
   const copySku = (sku: string) => {
@@ -102,14 +564,221 @@ const App: React.FC = () => {
     setTimeout(() => setCopiedSku(null), 2000);
   };
 
+  const handleProductListKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const next = moveListIndex(listIndex, e.key, filteredGroups.length);
+    if (next !== null) {
+      e.preventDefault();
+      setListIndex(next);
+    } else if ((e.key === 'Enter' || e.key === ' ') && filteredGroups[listIndex]) {
+      e.preventDefault();
+      handleSelectGroup(filteredGroups[listIndex]);
+    } else if (e.key === 'ArrowRight' && selectedGroup) {
+      e.preventDefault();
+      variantGridRef.current?.focus();
+    }
+  };
+
+  const handleVariantGridKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const next = moveListIndex(gridIndex, e.key, sortedVariants.length, variantColumns);
+    const highlighted = sortedVariants[gridIndex];
+    if (next !== null) {
+      e.preventDefault();
+      setGridIndex(next);
+    } else if ((e.key === 'Enter' || e.key === ' ') && highlighted) {
+      e.preventDefault();
+      setSelectedSku(highlighted.sku);
+    } else if (e.key === 'c' && highlighted && !e.ctrlKey && !e.metaKey) {
+      // The highlighted card is what the rep is looking at, even before Enter selects it
+      e.stopPropagation();
+      copySku(highlighted.sku);
+    } else if (e.key === 'Escape') {
+      productListRef.current?.focus();
+    }
+  };
+
   const clearData = () => {
     if (confirm("Are you sure you want to clear the current catalog data?")) {
       setCsvData(null);
-      localStorage.removeItem(STORAGE_KEY);
-      setSelectedGroup(null);
+      clearCatalog().then(refreshStorageUsage).catch(() => undefined);
+      setSelectedGroupId(null);
     }
   };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isPaletteShortcut(e)) {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+        return;
+      }
+      if (paletteOpen || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      if (e.key === '/') {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+        searchInputRef.current?.select();
+      } else if (e.key === 'c' && shownView === 'catalog' && activeVariant) {
+        copySku(activeVariant.sku);
+      } else if ((e.key === 'ArrowDown' || e.key === 'ArrowUp') && (e.target === document.body || e.target === document.documentElement)) {
+        e.preventDefault();
+        productListRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Built only while the palette is open. Catalog entries are kept apart from the actions so a change of
+  // selection or settings doesn't rebuild a command for every SKU.
+  const actionCommands = useMemo<PaletteCommand[]>(() => {
+    if (!paletteOpen) return [];
+    const commands: PaletteCommand[] = [];
+    if (activeVariant && shownView === 'catalog') {
+      commands.push(
+        { id: 'action:add', section: 'Action', label: `Add ${quoteQty} × ${activeVariant.sku} to quote`, detail: activeVariant.description, run: () => addToQuote(activeVariant) },
+        { id: 'action:copy', section: 'Action', label: `Copy SKU ${activeVariant.sku}`, run: () => copySku(activeVariant.sku) },
+      );
+    }
+    visibility.tiers.forEach(tier => commands.push({
+      id: `action:tier:${tier}`,
+      section: 'Action',
+      label: `Price quote at ${tier}`,
+      detail: quote.tier === tier ? 'Current quote tier' : undefined,
+      keywords: 'switch tier pricing',
+      run: () => setQuote(prev => ({ ...prev, tier, updatedAt: new Date().toISOString() })),
+    }));
+    commands.push({ id: 'action:filters', section: 'Action', label: showFilters ? 'Hide filters' : 'Show filters', run: () => setShowFilters(show => !show) });
+    if (visibility.showInternal) {
+      commands.push(
+        { id: 'action:upload', section: 'Action', label: 'Upload catalog', detail: 'CSV or Excel workbook', keywords: 'import update csv xlsx', run: () => fileInputRef.current?.click() },
+        { id: 'action:clear', section: 'Action', label: 'Clear catalog', keywords: 'delete remove', run: clearData },
+        { id: 'action:present', section: 'Action', label: 'Start presentation mode', keywords: 'customer hide pricing', run: () => setPresentationDialog('start') },
+      );
+    } else {
+      commands.push({ id: 'action:present', section: 'Action', label: 'Exit presentation mode', run: () => setPresentationDialog('stop') });
+    }
+
+    const views: { view: AppView; label: string }[] = [
+      { view: 'catalog', label: 'Catalog' },
+      { view: 'quote', label: 'Quote' },
+      { view: 'compare', label: 'Compare' },
+      { view: 'lookup', label: 'Bulk SKU lookup' },
+      { view: 'customers', label: 'Customer accounts' },
+      { view: 'analytics', label: 'Analytics' },
+      { view: 'history', label: 'Catalog history' },
+    ];
+    views.filter(v => isViewVisible(visibility, v.view)).forEach(v => commands.push({
+      id: `view:${v.view}`, section: 'View', label: `Go to ${v.label}`, run: () => setView(v.view),
+    }));
+    return commands;
+  }, [paletteOpen, activeVariant, shownView, quoteQty, quote.tier, showFilters, visibility]);
+
+  const catalogCommands = useMemo<PaletteCommand[]>(() => {
+    if (!paletteOpen) return [];
+    const commands: PaletteCommand[] = [];
+    productGroups.forEach(group => {
+      commands.push({
+        id: `product:${group.id}`,
+        section: 'Product',
+        label: group.parentName,
+        detail: `${lineLabel(group.productLine)} › ${group.family} • ${group.variants.length} SKUs`,
+        run: () => {
+          setSelectedGroupId(group.id);
+          setSelectedSku(null);
+          setView('catalog');
+        },
+      });
+      group.variants.forEach(v => commands.push({
+        id: `sku:${v.sku}`,
+        section: 'SKU',
+        label: v.sku,
+        detail: v.description,
+        run: () => {
+          setSelectedGroupId(group.id);
+          setSelectedSku(v.sku);
+          setView('catalog');
+        },
+      }));
+    });
+
+    families.forEach(family => commands.push({
+      id: `family:${family}`,
+      section: 'Family',
+      label: family,
+      detail: 'Filter the catalog to this family',
+      run: () => {
+        setFilters(prev => ({ ...prev, families: [family] }));
+        setShowFilters(true);
+        setView('catalog');
+      },
+    }));
+    return commands;
+  }, [paletteOpen, productGroups, families]);
+
+  const paletteCommands = useMemo(() => [...actionCommands, ...catalogCommands], [actionCommands, catalogCommands]);
+
+  const mappingDialog = pendingMapping && (
+    <ColumnMappingDialog
+      fileName={pendingMapping.fileName}
+      header={pendingMapping.header}
+      sampleRow={pendingMapping.sampleRow}
+      initialMapping={pendingMapping.mapping}
+      onConfirm={confirmMapping}
+      onCancel={() => setPendingMapping(null)}
+    />
+  );
+
+  const sheetDialog = pendingWorkbook && (
+    <SheetPickerDialog
+      fileName={pendingWorkbook.fileName}
+      sheets={pendingWorkbook.summaries}
+      initialIndex={pendingWorkbook.initialIndex}
+      onConfirm={confirmSheet}
+      onCancel={() => setPendingWorkbook(null)}
+    />
+  );
+
+  const importDialog = pendingImport && (
+    <ImportReviewDialog
+      fileName={pendingImport.fileName}
+      result={pendingImport.result}
+      currentProductCount={productGroups.length}
+      currentSkuCount={variantIndex.size}
+      onConfirm={confirmImport}
+      onCancel={() => setPendingImport(null)}
+    />
+  );
+
+  const progressPercent = catalogProgress?.total ? Math.round((catalogProgress.done / catalogProgress.total) * 100) : null;
+  const progressLabel = catalogProgress?.phase === 'indexing'
+    ? 'Building search index…'
+    : `Reading catalog…${progressPercent !== null ? ` ${progressPercent}%` : ''}`;
+
+  const progressNotice = catalogProgress && (
+    <div className="fixed bottom-6 right-6 z-[90] bg-white rounded-2xl shadow-xl border border-slate-200 px-5 py-4 w-72" role="status">
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{progressLabel}</p>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-indigo-500 rounded-full transition-all ${progressPercent === null ? 'w-1/3 animate-pulse' : ''}`}
+          style={progressPercent !== null ? { width: `${progressPercent}%` } : undefined}
+        />
+      </div>
+    </div>
+  );
+
+  if (!storageReady || (csvData && productGroups.length === 0 && catalogProgress)) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center p-4 text-slate-400">
+        <Database className="w-8 h-8 mb-4 animate-pulse" />
+        <p className="text-xs font-bold uppercase tracking-widest">{storageReady ? progressLabel : 'Loading stored catalog…'}</p>
+        {progressPercent !== null && (
+          <div className="mt-4 w-64 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${progressPercent}%` }} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
   if (!csvData) {
     return (
       <div className="min-h-screen bg-slate-50 flex flex-col items-center justify-center p-4">
@@ -118,22 +787,26 @@ const App: React.FC = () => {
           ref={fileInputRef} 
           onChange={handleFileUpload} 
           className="hidden" 
-          accept=".csv"
+          accept=".csv,.xlsx"
         />
+        {sheetDialog}
+        {mappingDialog}
+        {importDialog}
+        {progressNotice}
         <div className="max-w-md w-full bg-white rounded-3xl shadow-xl p-8 md:p-12 text-center border border-slate-200">
           <div className="bg-indigo-600 w-20 h-20 rounded-2xl flex items-center justify-center mx-auto mb-8 shadow-lg shadow-indigo-200">
             <Package className="w-10 h-10 text-white" />
           </div>
           <h1 className="text-3xl font-extrabold text-slate-900 mb-4">State Chemical Catalog</h1>
           <p className="text-slate-500 mb-10 leading-relaxed">
-            Please upload your product catalog CSV file to begin. The data will be stored locally in your browser.
+            Please upload your product catalog as a CSV or Excel file to begin. The data will be stored locally in your browser.
           </p>
           <button 
             onClick={() => fileInputRef.current?.click()}
             className="w-full flex items-center justify-center space-x-3 bg-indigo-600 hover:bg-indigo-700 text-white py-4 rounded-xl font-bold text-lg transition-all transform hover:scale-[1.02] active:scale-[0.98] shadow-lg shadow-indigo-200"
           >
             <Upload className="w-6 h-6" />
-            <span>Upload Catalog CSV</span>
+            <span>Upload Catalog</span>
           </button>
         </div>
         <p className="mt-8 text-xs text-slate-400 font-medium uppercase tracking-widest">
@@ -144,279 +817,744 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900">
-      <input 
-        type="file" 
-        ref={fileInputRef} 
-        onChange={handleFileUpload} 
-        className="hidden" 
-        accept=".csv"
-      />
+    <PricingVisibilityContext.Provider value={visibility}>
+      <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900">
+        <input 
+          type="file" 
+          ref={fileInputRef} 
+          onChange={handleFileUpload} 
+          className="hidden" 
+          accept=".csv,.xlsx"
+        />
+        {sheetDialog}
+        {mappingDialog}
+        {importDialog}
+        {progressNotice}
+        {paletteOpen && <CommandPalette commands={paletteCommands} onClose={() => setPaletteOpen(false)} />}
+        {presentationDialog && (
+          <PresentationDialog
+            mode={presentationDialog}
+            isNewPin={!hasPresentationPin()}
+            onSubmit={submitPresentationPin}
+            onCancel={() => setPresentationDialog(null)}
+          />
+        )}
       
-      {/* Navbar */}
-      <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
-        <div className="max-w-[1600px] mx-auto px-4 h-16 flex items-center justify-between gap-4">
-          <div className="flex items-center space-x-3 shrink-0 cursor-pointer" onClick={() => setSelectedGroup(null)} title="Return Home">
-            <div className="bg-indigo-600 p-2 rounded-xl shadow-lg shadow-indigo-100">
-              <Package className="w-6 h-6 text-white" />
-            </div>
-            <div className="hidden md:block">
-              <h1 className="text-lg font-bold leading-none">State Chemical</h1>
-              <p className="text-[10px] text-slate-400 font-medium uppercase tracking-tighter">Pricing Matrix</p>
+        {/* Navbar */}
+        <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
+          <div className="max-w-[1600px] mx-auto px-4 h-16 flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3 shrink-0 cursor-pointer" onClick={() => { setSelectedGroupId(null); setView('catalog'); }} title="Return Home">
+              <div className="bg-indigo-600 p-2 rounded-xl shadow-lg shadow-indigo-100">
+                <Package className="w-6 h-6 text-white" />
+              </div>
+              <div className="hidden md:block">
+                <h1 className="text-lg font-bold leading-none">State Chemical</h1>
+                <p className="text-[10px] text-slate-400 font-medium uppercase tracking-tighter">Pricing Matrix</p>
+              </div>
             </div>
-          </div>
           
-          <div className="flex-1 max-w-2xl relative">
-            <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400">
-              <Search className="h-4 w-4" />
+            <div className="flex-1 max-w-2xl relative">
+              <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400">
+                <Search className="h-4 w-4" />
+              </div>
+              <input
+                ref={searchInputRef}
+                type="text"
+                className="w-full pl-11 pr-12 py-2.5 bg-slate-100 border-transparent rounded-2xl text-sm focus:bg-white focus:ring-2 focus:ring-indigo-500/20 transition-all outline-none"
+                placeholder="Search products by Parent Name, SKU, or Description..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'ArrowDown') {
+                    e.preventDefault();
+                    productListRef.current?.focus();
+                  } else if (e.key === 'Enter' && filteredGroups[0]) {
+                    handleSelectGroup(filteredGroups[0]);
+                  } else if (e.key === 'Escape') {
+                    e.currentTarget.blur();
+                  }
+                }}
+                aria-label="Search products"
+                aria-keyshortcuts="/"
+              />
+              <button
+                onClick={() => setPaletteOpen(true)}
+                className="absolute inset-y-0 right-3 my-auto h-6 hidden sm:flex items-center text-[10px] font-black text-slate-400 bg-white border border-slate-200 px-1.5 rounded-md hover:text-indigo-600"
+                title="Command palette (Ctrl+K)"
+              >
+                Ctrl K
+              </button>
             </div>
-            <input
-              type="text"
-              className="w-full pl-11 pr-4 py-2.5 bg-slate-100 border-transparent rounded-2xl text-sm focus:bg-white focus:ring-2 focus:ring-indigo-500/20 transition-all outline-none"
-              placeholder="Search products by Parent Name, SKU, or Description..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-            />
-          </div>
 
-          <div className="flex items-center space-x-2">
-            <button 
-              onClick={() => fileInputRef.current?.click()}
-              className="flex items-center space-x-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-semibold hover:bg-slate-800 transition-all active:scale-95"
-            >
-              <FileUp className="w-4 h-4" />
-              <span className="hidden lg:inline">Update CSV</span>
-            </button>
-            <button 
-              onClick={clearData}
-              className="p-2.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
-              title="Clear data"
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setView(view === 'quote' ? 'catalog' : 'quote')}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-semibold transition-all active:scale-95 ${
+                  view === 'quote' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                }`}
+                title="Open quote"
+              >
+                <ShoppingCart className="w-4 h-4" />
+                <span className="hidden lg:inline">Quote</span>
+                {quote.lines.length > 0 && (
+                  <span className={`text-[10px] font-black px-1.5 py-0.5 rounded-full ${view === 'quote' ? 'bg-white text-indigo-600' : 'bg-indigo-600 text-white'}`}>
+                    {quote.lines.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setView(view === 'lookup' ? 'catalog' : 'lookup')}
+                className={`p-2.5 rounded-xl transition-all ${view === 'lookup' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title="Bulk SKU lookup"
+              >
+                <ClipboardList className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setView(view === 'compare' ? 'catalog' : 'compare')}
+                className={`relative p-2.5 rounded-xl transition-all ${view === 'compare' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title="Compare variants"
+              >
+                <Columns2 className="w-5 h-5" />
+                {comparedSkus.length > 0 && (
+                  <span className="absolute -top-1 -right-1 text-[9px] font-black min-w-[16px] h-4 px-1 rounded-full bg-indigo-600 text-white flex items-center justify-center ring-2 ring-white">
+                    {comparedSkus.length}
+                  </span>
+                )}
+              </button>
+              {visibility.showInternal && (
+                <>
+                  <button
+                    onClick={() => setView(view === 'customers' ? 'catalog' : 'customers')}
+                    className={`flex items-center space-x-2 p-2.5 rounded-xl text-sm font-semibold transition-all ${
+                      view === 'customers' ? 'bg-indigo-600 text-white' : activeCustomer ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
+                    }`}
+                    title={activeCustomer ? `Pricing for ${activeCustomer.name}` : 'Customer accounts'}
+                  >
+                    {activeCustomer ? <UserCheck className="w-5 h-5" /> : <Users className="w-5 h-5" />}
+                    {activeCustomer && <span className="hidden xl:inline max-w-[140px] truncate">{activeCustomer.name}</span>}
+                  </button>
+                  <button
+                    onClick={() => setView(view === 'analytics' ? 'catalog' : 'analytics')}
+                    className={`p-2.5 rounded-xl transition-all ${view === 'analytics' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                    title="Catalog analytics"
+                  >
+                    <BarChart3 className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setView(view === 'history' ? 'catalog' : 'history')}
+                    className={`p-2.5 rounded-xl transition-all ${view === 'history' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                    title="Catalog history"
+                  >
+                    <History className="w-5 h-5" />
+                  </button>
+                  <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center space-x-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-semibold hover:bg-slate-800 transition-all active:scale-95"
+                  >
+                    <FileUp className="w-4 h-4" />
+                    <span className="hidden lg:inline">Update Catalog</span>
+                  </button>
+                  <button 
+                    onClick={clearData}
+                    className="p-2.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                    title="Clear data"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </>
+              )}
+              {presenting ? (
+                <button
+                  onClick={() => setPresentationDialog('stop')}
+                  className="flex items-center space-x-2 px-4 py-2 bg-emerald-50 text-emerald-700 rounded-xl text-sm font-semibold hover:bg-emerald-100 transition-all active:scale-95"
+                  title="Exit presentation mode"
+                >
+                  <Lock className="w-4 h-4" />
+                  <span className="hidden lg:inline">Presenting</span>
+                </button>
+              ) : (
+                <button
+                  onClick={() => setPresentationDialog('start')}
+                  className="p-2.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all"
+                  title="Presentation mode: hide Floor and Give"
+                >
+                  <Presentation className="w-5 h-5" />
+                </button>
+              )}
+            </div>
           </div>
-        </div>
-      </header>
+        </header>
 
-      <main className="flex-1 max-w-[1600px] w-full mx-auto p-4 flex gap-6 overflow-hidden">
+        <main className="flex-1 max-w-[1600px] w-full mx-auto p-4 flex gap-6 overflow-hidden">
         
-        {/* Sidebar */}
-        <aside className="w-80 lg:w-96 flex flex-col shrink-0">
-          <div className="mb-4 px-2 flex items-center justify-between text-xs font-bold text-slate-400 uppercase tracking-widest">
-            <div className="flex items-center">
-              <Database className="w-3.5 h-3.5 mr-2" />
-              <span>{filteredGroups.length} Products</span>
-            </div>
-            <Filter className="w-3.5 h-3.5" />
-          </div>
-          
-          <div className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
-            {filteredGroups.length > 0 ? (
-              filteredGroups.map((group) => (
+          {/* Sidebar */}
+          <aside className="w-80 lg:w-96 flex flex-col shrink-0">
+            <div className="mb-4 px-2 flex items-center justify-between text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <div className="flex items-center">
+                <Database className="w-3.5 h-3.5 mr-2" />
+                <span>{filteredGroups.length} Products</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                <div className="flex items-center bg-slate-100 rounded-lg p-0.5" role="group" aria-label="Sidebar layout">
+                  {([['list', List, 'List products'], ['tree', FolderTree, 'Browse by product line and family']] as const).map(([mode, Icon, title]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setSidebarMode(mode)}
+                      aria-pressed={sidebarMode === mode}
+                      className={`p-1 rounded-md transition-all ${sidebarMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'hover:text-indigo-600'}`}
+                      title={title}
+                    >
+                      <Icon className="w-3.5 h-3.5" />
+                    </button>
+                  ))}
+                </div>
                 <button
-                  key={group.parentName}
-                  onClick={() => handleSelectGroup(group)}
-                  className={`w-full text-left p-4 rounded-2xl transition-all group border ${
-                    selectedGroup?.parentName === group.parentName
-                      ? 'bg-white border-indigo-500 shadow-xl shadow-indigo-500/10 ring-1 ring-indigo-500'
-                      : 'bg-white border-transparent hover:bg-slate-50 hover:border-slate-200'
+                  onClick={() => setShowFilters(!showFilters)}
+                  className={`flex items-center space-x-1 px-2 py-1 rounded-lg transition-all ${
+                    showFilters || activeFilterCount > 0 ? 'text-indigo-600 bg-indigo-50' : 'hover:text-indigo-600 hover:bg-indigo-50'
                   }`}
+                  title="Filter products"
                 >
-                  <div className="flex justify-between items-start mb-2">
-                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-tighter ${
-                      selectedGroup?.parentName === group.parentName ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'
-                    }`}>
-                      {group.family}
-                    </span>
-                    <ChevronRight className={`w-4 h-4 transition-transform ${selectedGroup?.parentName === group.parentName ? 'text-indigo-500 translate-x-1' : 'text-slate-300'}`} />
-                  </div>
-                  <h3 className={`text-sm font-bold leading-tight ${selectedGroup?.parentName === group.parentName ? 'text-indigo-600' : 'text-slate-700'}`}>
-                    <HighlightText text={group.parentName} term={searchTerm} />
-                  </h3>
-                  <div className="mt-3 flex items-center text-[11px] text-slate-400 font-semibold">
-                    <Box className="w-3 h-3 mr-1.5 opacity-50" />
-                    {group.variants.length} SKU Variants
-                  </div>
+                  <Filter className="w-3.5 h-3.5" />
+                  {activeFilterCount > 0 && <span className="tabular-nums">{activeFilterCount}</span>}
                 </button>
-              ))
+              </div>
+            </div>
+
+            {showFilters && <FilterPanel filters={filters} facetCounts={facetCounts} onChange={setFilters} />}
+          
+            {sidebarMode === 'tree' ? (
+              <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar">
+                {filteredGroups.length > 0 ? (
+                  <BrowseTree
+                    groups={filteredGroups}
+                    selectedGroup={selectedGroup}
+                    onSelect={handleSelectGroup}
+                    onBrowseFamily={browseHierarchy}
+                  />
+                ) : (
+                  <p className="text-center py-10 px-4 text-sm text-slate-400">No products match the current search and filters</p>
+                )}
+              </div>
             ) : (
-              <div className="text-center py-10 px-4">
-                <p className="text-sm text-slate-400">No products found matching "{searchTerm}"</p>
+              <div
+                ref={productListRef}
+                role="listbox"
+                aria-label="Products"
+                tabIndex={0}
+                aria-activedescendant={filteredGroups[listIndex] ? `product-option-${listIndex}` : undefined}
+                onKeyDown={handleProductListKey}
+                className="group/list flex-1 overflow-y-auto pr-2 p-0.5 custom-scrollbar outline-none"
+              >
+                {filteredGroups.length > 0 ? (
+                  <div ref={productSpacerRef} className="relative" style={{ height: productRows.totalHeight }}>
+                    <div className="absolute inset-x-0 top-0" style={{ transform: `translateY(${productRows.start * PRODUCT_ROW_HEIGHT}px)` }}>
+                      {filteredGroups.slice(productRows.start, productRows.end).map((group, offset) => {
+                        const i = productRows.start + offset;
+                        return (
+                          <button
+                            key={group.id}
+                            id={`product-option-${i}`}
+                            role="option"
+                            aria-selected={selectedGroup?.id === group.id}
+                            aria-setsize={filteredGroups.length}
+                            aria-posinset={i + 1}
+                            tabIndex={-1}
+                            onClick={() => handleSelectGroup(group)}
+                            style={{ height: PRODUCT_ROW_HEIGHT - 8 }}
+                            className={`w-full text-left p-4 mb-2 rounded-2xl transition-all group border flex flex-col overflow-hidden ${
+                              selectedGroup?.id === group.id
+                                ? 'bg-white border-indigo-500 shadow-xl shadow-indigo-500/10 ring-1 ring-indigo-500'
+                                : 'bg-white border-transparent hover:bg-slate-50 hover:border-slate-200'
+                            } ${i === listIndex ? 'group-focus-visible/list:ring-2 group-focus-visible/list:ring-indigo-300' : ''}`}
+                          >
+                            <div className="flex justify-between items-start mb-2">
+                              <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full uppercase tracking-tighter ${
+                                selectedGroup?.id === group.id ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'
+                              }`}>
+                                {group.family}
+                              </span>
+                              <ChevronRight className={`w-4 h-4 transition-transform ${selectedGroup?.id === group.id ? 'text-indigo-500 translate-x-1' : 'text-slate-300'}`} />
+                            </div>
+                            <h3 className={`text-sm font-bold leading-tight line-clamp-2 ${selectedGroup?.id === group.id ? 'text-indigo-600' : 'text-slate-700'}`}>
+                              <HighlightText text={group.parentName} pattern={highlightPattern} />
+                            </h3>
+                            <div className="mt-auto flex items-center text-[11px] text-slate-400 font-semibold">
+                              <Box className="w-3 h-3 mr-1.5 opacity-50" />
+                              {activeFilterCount > 0
+                                ? `${group.variants.filter(v => variantMatchesFilters(v, filters)).length} of ${group.variants.length} SKUs match`
+                                : `${group.variants.length} SKU Variants`}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-center py-10 px-4">
+                    <p className="text-sm text-slate-400">
+                      {activeFilterCount > 0 ? 'No products match the current search and filters' : `No products found matching "${searchTerm}"`}
+                    </p>
+                  </div>
+                )}
               </div>
             )}
-          </div>
-        </aside>
-
-        {/* Content Area */}
-        <section className="flex-1 overflow-y-auto custom-scrollbar">
-          {selectedGroup ? (
-            <div className="space-y-6 pb-20">
-              {/* Product Header */}
-              <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm relative overflow-hidden">
-                <div className="absolute top-0 right-0 p-8 opacity-5">
-                  <Package className="w-32 h-32" />
-                </div>
-                
-                <div className="relative z-10">
-                  <div className="flex items-center space-x-3 text-indigo-500 mb-2">
-                    <Tag className="w-4 h-4" />
-                    <span className="text-sm font-bold uppercase tracking-wider">{selectedGroup.family}</span>
+          </aside>
+
+          {/* Content Area */}
+          <section className="flex-1 overflow-y-auto custom-scrollbar">
+            {shownView === 'quote' ? (
+              <QuotePanel
+                quote={quote}
+                variants={variantIndex}
+                onChange={setQuote}
+                onOpenSku={openSku}
+                customer={activeCustomer}
+                missingAccessories={missingAccessories}
+                freightRates={freightRates}
+                onFreightRatesChange={setFreightRates}
+              />
+            ) : shownView === 'customers' ? (
+              <CustomerPanel
+                customers={customers}
+                activeCustomerId={activeCustomer?.id ?? null}
+                families={families}
+                onChange={setCustomers}
+                onActivate={activateCustomer}
+              />
+            ) : shownView === 'analytics' ? (
+              <AnalyticsPanel groups={productGroups} onOpenSku={openSku} />
+            ) : shownView === 'compare' ? (
+              <ComparePanel
+                rows={comparisonRows}
+                onRemove={(sku) => setComparedSkus(prev => prev.filter(s => s !== sku))}
+                onClear={() => setComparedSkus([])}
+                onOpenSku={openSku}
+              />
+            ) : shownView === 'lookup' ? (
+              <LookupPanel
+                text={lookupText}
+                onTextChange={setLookupText}
+                variants={variantIndex}
+                onOpenSku={openSku}
+                onAddToQuote={addLinesToQuote}
+                parseCatalog={catalogWorker.parseCatalog}
+              />
+            ) : shownView === 'history' ? (
+              <HistoryPanel
+                refreshKey={historyRevision}
+                parseCatalog={catalogWorker.parseCatalog}
+                onRestore={restoreVersion}
+                onOpenSku={openSku}
+              />
+            ) : selectedGroup ? (
+              <div className="space-y-6 pb-20">
+                {/* Product Header */}
+                <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm relative overflow-hidden">
+                  <div className="absolute top-0 right-0 p-8 opacity-5">
+                    <Package className="w-32 h-32" />
                   </div>
-                  <h2 className="text-3xl md:text-4xl font-extrabold text-slate-900 tracking-tight leading-tight">
-                    <HighlightText text={selectedGroup.parentName} term={searchTerm} />
-                  </h2>
-                  
-                  {/* Variant Selector */}
-                  <div className="mt-8">
-                    <div className="flex items-center justify-between mb-4">
-                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Select Variant / Size</label>
-                      <span className="text-[10px] font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded-md">{selectedGroup.variants.length} Options Available</span>
+                
+                  <div className="relative z-10">
+                    <div className="flex flex-wrap items-center gap-y-2 mb-2">
+                      <nav aria-label="Breadcrumb" className="flex items-center min-w-0 text-sm font-bold uppercase tracking-wider">
+                        <Layers className="w-4 h-4 mr-2 text-indigo-500 shrink-0" />
+                        <button
+                          onClick={() => browseHierarchy(selectedGroup.productLine)}
+                          className="text-slate-400 hover:text-indigo-600 truncate transition-all"
+                          title="Show every product in this line"
+                        >
+                          {lineLabel(selectedGroup.productLine)}
+                        </button>
+                        <ChevronRight className="w-4 h-4 mx-1 text-slate-300 shrink-0" />
+                        <span className="text-indigo-500 truncate" aria-current="location">
+                          <Tag className="w-4 h-4 mr-1.5 inline -mt-0.5" />
+                          {selectedGroup.family}
+                        </span>
+                      </nav>
+                      <button
+                        onClick={() => browseHierarchy(selectedGroup.productLine, selectedGroup.family)}
+                        className="ml-3 flex items-center space-x-1.5 px-2.5 py-1 rounded-lg bg-slate-100 text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-50 hover:text-indigo-600 transition-all"
+                      >
+                        <Filter className="w-3 h-3" />
+                        <span>Browse all in this family</span>
+                      </button>
                     </div>
+                    <h2 className="text-3xl md:text-4xl font-extrabold text-slate-900 tracking-tight leading-tight">
+                      <HighlightText text={selectedGroup.parentName} pattern={highlightPattern} />
+                    </h2>
+                  
+                    {/* Variant Selector */}
+                    <div className="mt-8">
+                      <div className="flex items-center justify-between mb-4">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Select Variant / Size</label>
+                        <span className="text-[10px] font-bold text-slate-400 bg-slate-100 px-2 py-1 rounded-md">{selectedGroup.variants.length} Options Available</span>
+                      </div>
                     
-                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
-                      {selectedGroup.variants.map((v, i) => (
-                        <button
-                          key={v.sku}
-                          onClick={() => setSelectedVariantIdx(i)}
-                          className={`text-left p-4 rounded-xl border-2 transition-all relative overflow-hidden group ${
-                            selectedVariantIdx === i
-                              ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg shadow-indigo-200 scale-[1.02]'
-                              : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-200 hover:bg-indigo-50/30'
-                          }`}
+                      <div ref={variantSpacerRef} className="relative" style={{ height: variantRows.totalHeight }}>
+                        <div
+                          ref={variantGridRef}
+                          role="listbox"
+                          aria-label="Variants"
+                          aria-orientation="horizontal"
+                          tabIndex={0}
+                          aria-activedescendant={sortedVariants[gridIndex] ? `variant-option-${gridIndex}` : undefined}
+                          onKeyDown={handleVariantGridKey}
+                          className="group/grid absolute inset-x-0 top-0 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3 rounded-xl outline-none"
+                          style={{ transform: `translateY(${variantRows.start * VARIANT_ROW_HEIGHT}px)` }}
                         >
-                          <div className="flex justify-between items-start mb-2 relative z-10 gap-2">
-                             <div className="flex-1">
-                               <p className={`text-xs font-extrabold uppercase leading-tight ${selectedVariantIdx === i ? 'text-indigo-100' : 'text-slate-500'}`}>
-                                 {v.unit}
-                               </p>
-                               <p className={`text-sm font-bold leading-snug mt-1 ${selectedVariantIdx === i ? 'text-white' : 'text-slate-800'}`}>
-                                 <HighlightText text={v.description} term={searchTerm} />
-                               </p>
-                             </div>
-                          </div>
+                          {sortedVariants.slice(variantRows.start * variantColumns, variantRows.end * variantColumns).map((v, offset) => {
+                            const i = variantRows.start * variantColumns + offset;
+                            return (
+                              <button
+                                key={v.sku}
+                                id={`variant-option-${i}`}
+                                role="option"
+                                aria-selected={activeVariant?.sku === v.sku}
+                                aria-setsize={sortedVariants.length}
+                                aria-posinset={i + 1}
+                                tabIndex={-1}
+                                onClick={() => setSelectedSku(v.sku)}
+                                style={{ height: VARIANT_ROW_HEIGHT - 12 }}
+                                className={`text-left p-4 rounded-xl border-2 transition-all relative overflow-hidden group flex flex-col ${
+                                  activeVariant?.sku === v.sku
+                                    ? 'bg-indigo-600 border-indigo-600 text-white shadow-lg shadow-indigo-200 scale-[1.02]'
+                                    : 'bg-white border-slate-100 text-slate-600 hover:border-indigo-200 hover:bg-indigo-50/30'
+                                } ${activeFilterCount > 0 && activeVariant?.sku !== v.sku && !variantMatchesFilters(v, filters) ? 'opacity-40' : ''} ${
+                                  i === gridIndex ? 'group-focus-visible/grid:ring-4 group-focus-visible/grid:ring-indigo-300' : ''
+                                }`}
+                              >
+                                <div className="flex justify-between items-start mb-2 relative z-10 gap-2">
+                                   <div className="flex-1">
+                                     <p className={`text-xs font-extrabold uppercase leading-tight flex items-center gap-2 ${activeVariant?.sku === v.sku ? 'text-indigo-100' : 'text-slate-500'}`}>
+                                       {v.unit}
+                                       {v.packaging.label && <span className={activeVariant?.sku === v.sku ? 'text-indigo-200' : 'text-slate-400'}>{v.packaging.label}</span>}
+                                       {isHazmat(v) && (
+                                         <span className={`text-[9px] font-black px-1.5 py-0.5 rounded ${activeVariant?.sku === v.sku ? 'bg-white/20 text-white' : 'bg-rose-50 text-rose-600'}`}>
+                                           {v.dotClass}
+                                         </span>
+                                       )}
+                                     </p>
+                                     <p className={`text-sm font-bold leading-snug mt-1 line-clamp-2 ${activeVariant?.sku === v.sku ? 'text-white' : 'text-slate-800'}`}>
+                                       <HighlightText text={v.description} pattern={highlightPattern} />
+                                     </p>
+                                   </div>
+                                </div>
                           
-                          <div className={`mt-3 pt-3 border-t ${selectedVariantIdx === i ? 'border-white/20' : 'border-slate-100'} flex items-center justify-between font-mono text-xs relative z-10`}>
-                             <span className={selectedVariantIdx === i ? 'text-indigo-200' : 'text-slate-400'}>
-                               SKU: <HighlightText text={v.sku} term={searchTerm} />
-                             </span>
-                             {selectedVariantIdx === i && <CheckCircle2 className="w-3.5 h-3.5 text-white" />}
-                          </div>
-                        </button>
-                      ))}
+                                <div className={`mt-auto pt-3 border-t ${activeVariant?.sku === v.sku ? 'border-white/20' : 'border-slate-100'} flex items-center justify-between font-mono text-xs relative z-10`}>
+                                   <span className={activeVariant?.sku === v.sku ? 'text-indigo-200' : 'text-slate-400'}>
+                                     SKU: <HighlightText text={v.sku} pattern={highlightPattern} />
+                                   </span>
+                                   {activeVariant?.sku === v.sku && <CheckCircle2 className="w-3.5 h-3.5 text-white" />}
+                                </div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
 
-              {/* Stats & Pricing */}
-              <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
-                <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
-                  <div className="flex items-center justify-between mb-8">
-                     <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
-                        <DollarSign className="w-4 h-4 mr-2 text-indigo-500" />
-                        Pricing Matrix
-                      </h3>
-                      {activeVariant && (
-                         <span className="text-xs font-medium text-slate-400 font-mono">
-                           <HighlightText text={activeVariant.sku} term={searchTerm} /> • {activeVariant.unit}
-                         </span>
-                      )}
-                  </div>
+                {/* Stats & Pricing */}
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                  <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+                    <div className="flex items-center justify-between mb-8">
+                       <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
+                          <DollarSign className="w-4 h-4 mr-2 text-indigo-500" />
+                          Pricing Matrix
+                        </h3>
+                        {activeVariant && (
+                           <span className="text-xs font-medium text-slate-400 font-mono">
+                             <HighlightText text={activeVariant.sku} pattern={highlightPattern} /> • {activeVariant.unit}
+                             {activeVariant.packaging.label && <> • {activeVariant.packaging.label}</>}
+                           </span>
+                        )}
+                    </div>
                   
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    {[
-                      { label: 'Standard', value: activeVariant?.stdPrice, color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
-                      { label: 'Floor', value: activeVariant?.floorPrice, color: 'text-amber-600', bg: 'bg-amber-50/50' },
-                      { label: 'Give', value: activeVariant?.givePrice, color: 'text-emerald-600', bg: 'bg-emerald-50/50' },
-                      { label: 'GSA', value: activeVariant?.gsaPrice, color: 'text-rose-600', bg: 'bg-rose-50/50' },
-                    ].map((tier) => (
-                      <div key={tier.label} className={`${tier.bg} rounded-2xl p-5 border border-white transition-transform hover:scale-[1.02]`}>
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{tier.label}</p>
-                        <p className={`text-3xl font-black tabular-nums ${tier.color}`}>{formatCurrency(tier.value || 0)}</p>
+                    {activeCustomer && customerPrice && (
+                      <div className={`mb-4 rounded-2xl p-5 border-2 ${customerPriceFlagged ? 'bg-rose-50 border-rose-200' : 'bg-slate-900 border-slate-900'}`}>
+                        <div className="flex items-center justify-between gap-3 mb-1">
+                          <p className={`text-[10px] font-black uppercase tracking-wider ${customerPriceFlagged ? 'text-rose-400' : 'text-slate-400'}`}>
+                            {activeCustomer.name} • {!visibility.showInternal ? 'Your Price' : customerPrice.source === 'tier' ? `${customerPrice.tier} tier` : EFFECTIVE_SOURCE_LABELS[customerPrice.source]}
+                          </p>
+                          {customerPriceFlagged && (
+                            <span className="flex items-center text-[10px] font-black text-rose-600 bg-white px-2 py-0.5 rounded-md uppercase tracking-wider">
+                              <TriangleAlert className="w-3 h-3 mr-1" /> Below Floor
+                            </span>
+                          )}
+                        </div>
+                        <p className={`text-4xl font-black tabular-nums ${customerPriceFlagged ? 'text-rose-600' : 'text-white'}`}>{formatCurrency(customerPrice.price)}</p>
+                        {customerPrice.rule?.kind === 'percentOff' && (
+                          <p className={`text-[11px] font-semibold mt-1 ${customerPriceFlagged ? 'text-rose-400' : 'text-slate-400'}`}>{customerPrice.rule.value}% off Standard</p>
+                        )}
                       </div>
-                    ))}
-                  </div>
+                    )}
 
-                  <div className="mt-8 pt-8 border-t border-slate-100 flex items-center justify-between">
-                    <div className="flex items-center space-x-6">
-                      <div>
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Quick Copy</p>
-                        <div className="flex items-center group cursor-pointer bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 transition-all" onClick={() => copySku(activeVariant?.sku || '')}>
-                          <p className="text-sm font-mono font-bold text-slate-700">
-                            <HighlightText text={activeVariant?.sku || ''} term={searchTerm} />
-                          </p>
-                          {copiedSku === activeVariant?.sku ? (
-                            <CheckCircle2 className="w-3.5 h-3.5 ml-2 text-emerald-500" />
-                          ) : (
-                            <Copy className="w-3.5 h-3.5 ml-2 text-slate-300 group-hover:text-indigo-500 transition-colors" />
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      {[
+                        { tier: PriceTier.Standard, label: 'Standard', value: activeVariant?.stdPrice, color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+                        { tier: PriceTier.Floor, label: 'Floor', value: activeVariant?.floorPrice, color: 'text-amber-600', bg: 'bg-amber-50/50' },
+                        { tier: PriceTier.Give, label: 'Give', value: activeVariant?.givePrice, color: 'text-emerald-600', bg: 'bg-emerald-50/50' },
+                        { tier: PriceTier.GSA, label: 'GSA', value: activeVariant?.gsaPrice, color: 'text-rose-600', bg: 'bg-rose-50/50' },
+                      ].filter(tier => isTierVisible(visibility, tier.tier)).map((tier) => (
+                        <div key={tier.label} className={`${tier.bg} rounded-2xl p-5 border border-white transition-transform hover:scale-[1.02]`}>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{tier.label}</p>
+                          <p className={`text-3xl font-black tabular-nums ${tier.color}`}>{formatCurrency(tier.value || 0)}</p>
+                          {activeVariant?.packaging.totalGallons && (
+                            <p className="text-[11px] font-semibold text-slate-400 tabular-nums mt-1">
+                              {formatCurrency(pricePerGallon(tier.value || 0, activeVariant.packaging) || 0)}/gal • {formatCurrency(pricePerLiter(tier.value || 0, activeVariant.packaging) || 0)}/L
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="mt-8 pt-8 border-t border-slate-100 flex items-center justify-between">
+                      <div className="flex items-center space-x-6">
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Quick Copy</p>
+                          <div className="flex items-center group cursor-pointer bg-slate-50 px-3 py-1.5 rounded-lg border border-slate-200 hover:border-indigo-300 hover:bg-indigo-50 transition-all" onClick={() => copySku(activeVariant?.sku || '')}>
+                            <p className="text-sm font-mono font-bold text-slate-700">
+                              <HighlightText text={activeVariant?.sku || ''} pattern={highlightPattern} />
+                            </p>
+                            {copiedSku === activeVariant?.sku ? (
+                              <CheckCircle2 className="w-3.5 h-3.5 ml-2 text-emerald-500" />
+                            ) : (
+                              <Copy className="w-3.5 h-3.5 ml-2 text-slate-300 group-hover:text-indigo-500 transition-colors" />
+                            )}
+                          </div>
+                        </div>
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Shipping Wt.</p>
+                          <p className="text-sm font-bold text-slate-900">{activeVariant?.weight.toFixed(3)} <span className="text-slate-400 font-medium">lbs</span></p>
+                          {activeVariant && isHazmat(activeVariant) && (
+                            <p className="text-[10px] font-black text-rose-600 uppercase tracking-wider mt-0.5">Ground only</p>
                           )}
                         </div>
                       </div>
-                      <div>
-                        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Shipping Wt.</p>
-                        <p className="text-sm font-bold text-slate-900">{activeVariant?.weight.toFixed(3)} <span className="text-slate-400 font-medium">lbs</span></p>
+                      {activeVariant && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => setComparedSkus(prev => toggleComparedSku(prev, activeVariant.sku))}
+                            disabled={!comparedSkus.includes(activeVariant.sku) && comparedSkus.length >= MAX_COMPARE_ITEMS}
+                            className={`flex items-center space-x-1.5 px-3 py-2 rounded-lg text-xs font-bold transition-all active:scale-95 disabled:opacity-40 ${
+                              comparedSkus.includes(activeVariant.sku) ? 'bg-indigo-50 text-indigo-700 ring-1 ring-indigo-200' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                            }`}
+                            title={comparedSkus.includes(activeVariant.sku) ? 'Remove from comparison' : 'Pin for comparison'}
+                          >
+                            <Columns2 className="w-3.5 h-3.5" />
+                            <span>{comparedSkus.includes(activeVariant.sku) ? 'Pinned' : 'Compare'}</span>
+                          </button>
+                          <input
+                            type="number"
+                            min={1}
+                            value={quoteQty}
+                            onChange={(e) => setQuoteQty(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                            className="w-16 bg-slate-100 rounded-lg px-2 py-2 text-sm font-bold tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20"
+                            title="Quantity"
+                          />
+                          <button
+                            onClick={() => addToQuote(activeVariant)}
+                            className="flex items-center space-x-1.5 px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all active:scale-95"
+                          >
+                            <Plus className="w-3.5 h-3.5" />
+                            <span>Add to Quote</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {activeVariant && (
+                      <div className="mt-6 grid grid-cols-2 lg:grid-cols-3 gap-4">
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><TriangleAlert className="w-3 h-3 mr-1.5" />DOT Class</p>
+                          {isHazmat(activeVariant) ? (
+                            <span className="inline-block text-xs font-black px-2 py-1 rounded-md bg-rose-50 text-rose-600 border border-rose-100">{activeVariant.dotClass}</span>
+                          ) : (
+                            <p className="text-sm font-bold text-slate-400">Non-regulated</p>
+                          )}
+                        </div>
+                        {visibility.showInternal && (
+                          <div>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><Percent className="w-3 h-3 mr-1.5" />Max Discount</p>
+                            <p className="text-sm font-bold text-slate-900">{activeVariant.discountPercent}% <span className="text-slate-400 font-medium">off Standard</span></p>
+                          </div>
+                        )}
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><Hash className="w-3 h-3 mr-1.5" />Qty Code</p>
+                          <p className="text-sm font-bold text-slate-900 font-mono">{activeVariant.quantityCode || '—'}</p>
+                        </div>
+                        {visibility.showInternal && (
+                          <div>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><Info className="w-3 h-3 mr-1.5" />Info Code</p>
+                            <p className="text-sm font-bold text-slate-900 font-mono">{activeVariant.productInformationCode || '—'}</p>
+                            {activeInfoCode && (
+                              <dl className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+                                {([
+                                  ['discount', 'Discount', formatDiscountTens(activeInfoCode.discountTens)],
+                                  ['floor', 'Floor', formatDecodedPrice(activeInfoCode.floorDollars)],
+                                  ['quantityCode', 'Qty', activeInfoCode.quantityCode || '—'],
+                                  ['give', 'Give', formatDecodedPrice(activeInfoCode.giveDollars)],
+                                ] as [InfoCodeField, string, string][]).map(([field, label, value]) => {
+                                  const mismatch = activeInfoCodeMismatches.find(m => m.field === field);
+                                  return (
+                                    <React.Fragment key={field}>
+                                      <dt className="font-semibold text-slate-400">{label}</dt>
+                                      <dd
+                                        className={mismatch ? 'font-bold text-rose-600 flex items-center' : 'font-medium text-slate-500'}
+                                        title={mismatch ? `Row has ${mismatch.actual}` : undefined}
+                                      >
+                                        {value}
+                                        {mismatch && <TriangleAlert className="w-3 h-3 ml-1" />}
+                                      </dd>
+                                    </React.Fragment>
+                                  );
+                                })}
+                                <dt className="font-semibold text-slate-400">Segment</dt>
+                                <dd className="font-medium text-slate-500 font-mono">{activeInfoCode.segment}</dd>
+                              </dl>
+                            )}
+                            {activeInfoCodeMismatches.some(m => m.field === 'code') && (
+                              <p className="mt-1 text-xs font-bold text-rose-600">Doesn't match the info code format</p>
+                            )}
+                          </div>
+                        )}
+                        {activeVariant.classification && (
+                          <div>
+                            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><Shapes className="w-3 h-3 mr-1.5" />Classification</p>
+                            <button
+                              onClick={() => {
+                                setFilters(prev => ({ ...prev, classifications: [classificationLabel(activeVariant.classification)] }));
+                                setShowFilters(true);
+                              }}
+                              className="group text-left"
+                              title="Show every product in this class"
+                            >
+                              <span className="text-sm font-bold font-mono text-slate-900 group-hover:text-indigo-600">{activeVariant.classification.code}</span>
+                              {activeVariant.classification.description && (
+                                <span className="block text-xs font-medium text-slate-500">{activeVariant.classification.description}</span>
+                              )}
+                            </button>
+                          </div>
+                        )}
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><MapPin className="w-3 h-3 mr-1.5" />Location</p>
+                          <p className="text-sm font-bold text-slate-900 font-mono">{activeVariant.location || '—'}</p>
+                        </div>
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1 flex items-center"><Puzzle className="w-3 h-3 mr-1.5" />Accessories</p>
+                          {activeVariant.accessories.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {activeVariant.accessories.map(code => (
+                                <span key={code} className="text-xs font-bold font-mono px-2 py-0.5 rounded-md bg-slate-100 text-slate-600">{code}</span>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm font-bold text-slate-400">None</p>
+                          )}
+                        </div>
                       </div>
+                    )}
+                  </div>
+
+                  <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm flex flex-col">
+                    <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">Spread Analysis</h3>
+                    <div className="flex-1 min-h-[300px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={chartData} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                          <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8', fontWeight: 700 }} />
+                          <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+                          <Tooltip 
+                            cursor={{ fill: '#f8fafc', radius: 10 }}
+                            contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                            formatter={(value: number) => [formatCurrency(value), 'Price']}
+                          />
+                          <Bar dataKey="value" radius={[12, 12, 12, 12]} barSize={48}>
+                            {chartData.map((entry, index) => (
+                              <Cell key={`cell-${index}`} fill={entry.color} />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
                     </div>
                   </div>
                 </div>
 
-                <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm flex flex-col">
-                  <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">Spread Analysis</h3>
-                  <div className="flex-1 min-h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={chartData} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
-                        <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
-                        <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8', fontWeight: 700 }} />
-                        <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
-                        <Tooltip 
-                          cursor={{ fill: '#f8fafc', radius: 10 }}
-                          contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
-                          formatter={(value: number) => [formatCurrency(value), 'Price']}
-                        />
-                        <Bar dataKey="value" radius={[12, 12, 12, 12]} barSize={48}>
-                          {chartData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={entry.color} />
-                          ))}
-                        </Bar>
-                      </BarChart>
-                    </ResponsiveContainer>
-                  </div>
+                {activeVariant && (
+                  <DilutionPanel variant={activeVariant} group={selectedGroup} dilutions={dilutions} onChange={setDilutions} />
+                )}
+
+                {activeVariant && accessoryRecommendations && (
+                  <AccessoryPanel
+                    variant={activeVariant}
+                    recommendations={accessoryRecommendations}
+                    variants={variantIndex}
+                    quantity={quoteQty}
+                    priceFor={(v) => priceQuoteItem(v, undefined, quote, activeCustomer, visibility).unitPrice}
+                    onAddToQuote={(skus) => addToQuote(activeVariant, skus)}
+                    onLink={(code, sku, required, label) => setAccessoryMap(prev => linkAccessoryCode(prev, code, sku, required, label))}
+                    onUnlink={(code, sku) => setAccessoryMap(prev => unlinkAccessorySku(prev, code, sku))}
+                    onOpenSku={openSku}
+                  />
+                )}
+              </div>
+            ) : (
+              <div className="h-[600px] flex flex-col items-center justify-center bg-white rounded-[40px] border-2 border-dashed border-slate-200 text-center p-12">
+                <div className="bg-indigo-50 p-8 rounded-full mb-8">
+                  <Search className="w-16 h-16 text-indigo-400" />
                 </div>
+                <h3 className="text-2xl font-black text-slate-900 mb-3">Enterprise Product Search</h3>
+                <p className="max-w-sm text-slate-500 font-medium">
+                  Type a SKU, parent name, or category into the search bar, or select a product from the list to view its multi-tier pricing structure.
+                </p>
+                {productGroups.length === 0 && (
+                  <div className="mt-6 flex items-center text-amber-600 bg-amber-50 px-4 py-2 rounded-lg text-sm font-medium">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    No data loaded. Use "Update Catalog" to load a catalog.
+                  </div>
+                )}
               </div>
+            )}
+          </section>
+        </main>
+
+        <footer className="bg-white border-t border-slate-200 py-6 px-8 flex items-center justify-between text-xs font-bold text-slate-400 uppercase tracking-widest">
+          <div className="flex items-center space-x-4">
+            <div className="flex items-center space-x-2" title={isOnline ? undefined : 'Working from data stored on this device'}>
+              <div className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500 animate-pulse' : 'bg-amber-500'}`}></div>
+              <span>{isOnline ? 'Systems Active' : 'Offline'}</span>
             </div>
-          ) : (
-            <div className="h-[600px] flex flex-col items-center justify-center bg-white rounded-[40px] border-2 border-dashed border-slate-200 text-center p-12">
-              <div className="bg-indigo-50 p-8 rounded-full mb-8">
-                <Search className="w-16 h-16 text-indigo-400" />
+            {storageUsage && (
+              <div
+                className="hidden md:flex items-center space-x-2"
+                title={storageUsage.persisted ? 'Stored persistently on this device' : 'The browser may clear this data if the device runs low on space'}
+              >
+                <HardDrive className="w-3.5 h-3.5" />
+                <span className="tabular-nums">
+                  {formatBytes(storageUsage.usage)}{storageUsage.quota > 0 && ` of ${formatBytes(storageUsage.quota)}`}
+                </span>
+                {storageUsage.quota > 0 && (
+                  <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-rose-500' : 'bg-indigo-500'}`}
+                      style={{ width: `${Math.min(100, Math.max(2, (storageUsage.usage / storageUsage.quota) * 100))}%` }}
+                    ></div>
+                  </div>
+                )}
               </div>
-              <h3 className="text-2xl font-black text-slate-900 mb-3">Enterprise Product Search</h3>
-              <p className="max-w-sm text-slate-500 font-medium">
-                Type a SKU, parent name, or category into the search bar, or select a product from the list to view its multi-tier pricing structure.
-              </p>
-              {productGroups.length === 0 && (
-                <div className="mt-6 flex items-center text-amber-600 bg-amber-50 px-4 py-2 rounded-lg text-sm font-medium">
-                  <AlertCircle className="w-4 h-4 mr-2" />
-                  No data loaded. Use "Update CSV" to load a catalog.
-                </div>
-              )}
-            </div>
-          )}
-        </section>
-      </main>
-
-      <footer className="bg-white border-t border-slate-200 py-6 px-8 flex items-center justify-between text-xs font-bold text-slate-400 uppercase tracking-widest">
-        <div className="flex items-center space-x-2">
-          <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse"></div>
-          <span>Systems Active</span>
-        </div>
-        <div className="hidden sm:block">
-          {productGroups.length} Products • Internal Pricing Matrix
-        </div>
-        <div>
-          State Chemical Solutions
-        </div>
-      </footer>
-    </div>
+            )}
+          </div>
+          <div className="hidden sm:block">
+            {productGroups.length} Products • {visibility.showInternal ? 'Internal Pricing Matrix' : 'Customer Price List'}
+          </div>
+          <div>
+            State Chemical Solutions
+          </div>
+        </footer>
+      </div>
+    </PricingVisibilityContext.Provider>
   );
 };
 
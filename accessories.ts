@@ -0,0 +1,159 @@
+
+import { ProductGroup, ProductVariant, Quote } from './types';
+
+export const ACCESSORY_MAP_STORAGE_KEY = 'state_chemical_accessory_map_v1';
+
+// What an Accessory1 code (A2, A3, A17, M8...) stands for. The pricing report only carries the code,
+// so reps link each code to the SKUs that fulfil it once and it applies to every product using it.
+export interface AccessoryLink {
+  code: string;
+  skus: string[];
+  // Required accessories are flagged on quotes that leave them off
+  required: boolean;
+  label: string;
+}
+
+export type AccessoryMap = Record<string, AccessoryLink>;
+
+export type AccessorySource = 'code' | 'group';
+
+export interface AccessorySuggestion {
+  variant: ProductVariant;
+  parentName: string;
+  // Accessory code that produced the suggestion; null for items found in the same product group
+  code: string | null;
+  label: string;
+  required: boolean;
+  source: AccessorySource;
+}
+
+export interface AccessoryRecommendations {
+  suggestions: AccessorySuggestion[];
+  // Codes on the variant with no catalog product linked yet
+  unresolvedCodes: string[];
+}
+
+export interface MissingAccessory {
+  sku: string;
+  code: string;
+  label: string;
+  // Any one of these on the quote satisfies the requirement
+  options: string[];
+}
+
+// Hardware that ships alongside a chemical rather than being consumed: pumps, kits, replacement parts
+const HARDWARE = /\b(PUMP|PART|PARTS|KIT|DISPENSER|CONNECTOR|FAUCET|SPIGOT|NOZZLE|HOSE|RACK|BRACKET)\b|\bPART-/i;
+
+// Anything sold by the gallon or the bag is product, even when its name mentions a pump or parts washer
+export const isAccessoryItem = (variant: ProductVariant) =>
+  !variant.packaging.totalGallons && !variant.packaging.totalPounds
+  && (variant.productLine.toUpperCase() === 'EQUIPMENT' || HARDWARE.test(variant.description));
+
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export const loadAccessoryMap = (): AccessoryMap => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ACCESSORY_MAP_STORAGE_KEY) || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveAccessoryMap = (map: AccessoryMap) => {
+  localStorage.setItem(ACCESSORY_MAP_STORAGE_KEY, JSON.stringify(map));
+};
+
+export const linkAccessoryCode = (map: AccessoryMap, code: string, sku: string, required: boolean, label = ''): AccessoryMap => {
+  const key = normalizeCode(code);
+  const existing = map[key];
+  const skus = existing ? Array.from(new Set([...existing.skus, sku])) : [sku];
+  return { ...map, [key]: { code: key, skus, required, label: label.trim() || existing?.label || '' } };
+};
+
+export const unlinkAccessorySku = (map: AccessoryMap, code: string, sku: string): AccessoryMap => {
+  const key = normalizeCode(code);
+  const existing = map[key];
+  if (!existing) return map;
+  const skus = existing.skus.filter(s => s !== sku);
+  const next = { ...map };
+  if (skus.length === 0) delete next[key];
+  else next[key] = { ...existing, skus };
+  return next;
+};
+
+// SKU -> parent name, so suggestions can link back into the catalog
+export const buildParentIndex = (groups: ProductGroup[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  groups.forEach(g => g.variants.forEach(v => index.set(v.sku, g.parentName)));
+  return index;
+};
+
+// Codes resolve through the saved map first, then to a SKU literally equal to the code. Hardware listed
+// under the same parent (e.g. the BIODOSE drain pump next to the bacteria concentrate) is suggested too.
+export const recommendAccessories = (
+  variant: ProductVariant,
+  group: ProductGroup,
+  map: AccessoryMap,
+  variants: Map<string, ProductVariant>,
+  parents: Map<string, string>
+): AccessoryRecommendations => {
+  const suggestions: AccessorySuggestion[] = [];
+  const unresolvedCodes: string[] = [];
+  const seen = new Set<string>([variant.sku]);
+
+  variant.accessories.forEach(rawCode => {
+    const code = normalizeCode(rawCode);
+    const link = map[code];
+    const skus = link ? link.skus : variants.has(code) ? [code] : [];
+    const resolved = skus.map(sku => variants.get(sku)).filter((v): v is ProductVariant => !!v);
+    if (resolved.length === 0) {
+      unresolvedCodes.push(code);
+      return;
+    }
+    resolved.forEach(v => {
+      if (seen.has(v.sku)) return;
+      seen.add(v.sku);
+      suggestions.push({
+        variant: v,
+        parentName: parents.get(v.sku) || '',
+        code,
+        label: link?.label || '',
+        required: link?.required ?? false,
+        source: 'code',
+      });
+    });
+  });
+
+  if (!isAccessoryItem(variant)) {
+    group.variants.forEach(v => {
+      if (seen.has(v.sku) || !isAccessoryItem(v)) return;
+      seen.add(v.sku);
+      suggestions.push({ variant: v, parentName: group.parentName, code: null, label: '', required: false, source: 'group' });
+    });
+  }
+
+  return { suggestions: suggestions.sort((a, b) => Number(b.required) - Number(a.required)), unresolvedCodes };
+};
+
+// Required accessory codes whose linked SKUs are all absent from the quote
+export const findMissingAccessories = (
+  quote: Quote,
+  variants: Map<string, ProductVariant>,
+  map: AccessoryMap
+): MissingAccessory[] => {
+  const onQuote = new Set(quote.lines.map(l => l.sku));
+  const missing: MissingAccessory[] = [];
+  quote.lines.forEach(line => {
+    const variant = variants.get(line.sku);
+    if (!variant) return;
+    variant.accessories.forEach(rawCode => {
+      const link = map[normalizeCode(rawCode)];
+      if (!link?.required || link.skus.length === 0) return;
+      if (link.skus.some(sku => onQuote.has(sku))) return;
+      if (missing.some(m => m.sku === line.sku && m.code === link.code)) return;
+      missing.push({ sku: line.sku, code: link.code, label: link.label, options: link.skus });
+    });
+  });
+  return missing;
+};
@@ -0,0 +1,109 @@
+
+import { ProductGroup, ProductVariant } from './types';
+
+export type AnalyticsGrouping = 'productLine' | 'family';
+
+export interface RatioStats {
+  key: string;
+  skuCount: number;
+  // Averages are fractions of Standard, e.g. 0.7 = Floor is 70% of Standard
+  avgFloorRatio: number;
+  minFloorRatio: number;
+  maxFloorRatio: number;
+  avgGsaRatio: number | null;
+}
+
+export interface RatioBucket {
+  label: string;
+  floor: number;
+  gsa: number;
+}
+
+export type PricingOutlierKind = 'giveAboveFloor' | 'gsaAboveStandard' | 'floorAboveStandard';
+
+export interface PricingOutlier {
+  variant: ProductVariant;
+  parentName: string;
+  kind: PricingOutlierKind;
+  // How far the offending price exceeds its ceiling, in dollars
+  excess: number;
+}
+
+export interface NegotiatingRoom {
+  variant: ProductVariant;
+  parentName: string;
+  room: number;
+  roomPercent: number;
+}
+
+export const OUTLIER_LABELS: Record<PricingOutlierKind, string> = {
+  giveAboveFloor: 'Give above Floor',
+  gsaAboveStandard: 'GSA above Standard',
+  floorAboveStandard: 'Floor above Standard',
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Skips rows with no Standard price; a $0.00 GSA means "no GSA price" and is left out of GSA ratios
+export const computeRatioStats = (groups: ProductGroup[], grouping: AnalyticsGrouping): RatioStats[] => {
+  const buckets = new Map<string, ProductVariant[]>();
+  groups.forEach(g => g.variants.forEach(v => {
+    if (v.stdPrice <= 0) return;
+    const key = (grouping === 'productLine' ? v.productLine : v.family) || 'Unassigned';
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(v);
+  }));
+
+  return Array.from(buckets, ([key, variants]) => {
+    const floorRatios = variants.map(v => v.floorPrice / v.stdPrice);
+    const gsaRatios = variants.filter(v => v.gsaPrice > 0).map(v => v.gsaPrice / v.stdPrice);
+    return {
+      key,
+      skuCount: variants.length,
+      avgFloorRatio: average(floorRatios),
+      minFloorRatio: floorRatios.reduce((min, r) => Math.min(min, r), Infinity),
+      maxFloorRatio: floorRatios.reduce((max, r) => Math.max(max, r), -Infinity),
+      avgGsaRatio: gsaRatios.length > 0 ? average(gsaRatios) : null,
+    };
+  }).sort((a, b) => a.avgFloorRatio - b.avgFloorRatio);
+};
+
+// Histogram of Floor/Standard and GSA/Standard in 10% buckets; anything over 100% lands in the last one
+export const computeRatioDistribution = (groups: ProductGroup[]): RatioBucket[] => {
+  const buckets: RatioBucket[] = Array.from({ length: 11 }, (_, i) => ({
+    label: i === 10 ? '100%+' : `${i * 10}–${i * 10 + 9}%`,
+    floor: 0,
+    gsa: 0,
+  }));
+  const bucketFor = (ratio: number) => Math.min(10, Math.max(0, Math.floor(ratio * 10 + 1e-9)));
+
+  groups.forEach(g => g.variants.forEach(v => {
+    if (v.stdPrice <= 0) return;
+    buckets[bucketFor(v.floorPrice / v.stdPrice)].floor++;
+    if (v.gsaPrice > 0) buckets[bucketFor(v.gsaPrice / v.stdPrice)].gsa++;
+  }));
+  return buckets;
+};
+
+export const findPricingOutliers = (groups: ProductGroup[]): PricingOutlier[] => {
+  const outliers: PricingOutlier[] = [];
+  groups.forEach(g => g.variants.forEach(v => {
+    const push = (kind: PricingOutlierKind, excess: number) =>
+      outliers.push({ variant: v, parentName: g.parentName, kind, excess });
+    if (v.givePrice > v.floorPrice) push('giveAboveFloor', v.givePrice - v.floorPrice);
+    if (v.gsaPrice > v.stdPrice) push('gsaAboveStandard', v.gsaPrice - v.stdPrice);
+    if (v.floorPrice > v.stdPrice) push('floorAboveStandard', v.floorPrice - v.stdPrice);
+  }));
+  return outliers.sort((a, b) => b.excess - a.excess);
+};
+
+// Widest dollar gap between Standard and Floor, i.e. how much a rep can discount before hitting Floor
+export const findNegotiatingRoom = (groups: ProductGroup[], limit = 20): NegotiatingRoom[] => {
+  const rows: NegotiatingRoom[] = [];
+  groups.forEach(g => g.variants.forEach(v => {
+    const room = v.stdPrice - v.floorPrice;
+    if (room <= 0 || v.stdPrice <= 0) return;
+    rows.push({ variant: v, parentName: g.parentName, room, roomPercent: (room / v.stdPrice) * 100 });
+  }));
+  return rows.sort((a, b) => b.room - a.room).slice(0, limit);
+};
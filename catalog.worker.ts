@@ -0,0 +1,59 @@
+
+import { ProductGroup } from './types';
+import { importCatalog } from './utils';
+import { SearchIndex, buildSearchIndex, searchCatalog } from './search';
+import type { CatalogWorkerRequest, CatalogWorkerResponse } from './catalogWorker';
+
+let catalog: { id: number; index: SearchIndex; positions: Map<ProductGroup, number> } = {
+  id: 0,
+  index: { groups: [] },
+  positions: new Map(),
+};
+// The latest import kept for indexing, e.g. a file waiting in the review dialog
+let retained: { id: number; groups: ProductGroup[] } | null = null;
+
+const reply = (response: CatalogWorkerResponse) => self.postMessage(response);
+
+const indexCatalog = (id: number, groups: ProductGroup[]) => {
+  reply({ type: 'progress', id, progress: { phase: 'indexing', done: 0, total: 0 } });
+  catalog = {
+    id,
+    index: buildSearchIndex(groups),
+    positions: new Map(groups.map((group, i) => [group, i])),
+  };
+};
+
+const handle = (request: CatalogWorkerRequest) => {
+  if (request.type === 'search') {
+    const hits = searchCatalog(catalog.index, request.query).map(({ group, ...hit }) => ({
+      ...hit,
+      groupIdx: catalog.positions.get(group)!,
+    }));
+    reply({ type: 'searched', id: request.id, catalogId: catalog.id, hits });
+    return;
+  }
+
+  if (request.type === 'index') {
+    if (retained?.id !== request.importId) throw new Error('That import is no longer held by the catalog worker.');
+    indexCatalog(request.id, retained.groups);
+    retained = null;
+    reply({ type: 'indexed', id: request.id });
+    return;
+  }
+
+  const { id, csv, mapping, index, retain } = request;
+  const result = importCatalog(csv, mapping, (done, total) =>
+    reply({ type: 'progress', id, progress: { phase: 'parsing', done, total } })
+  );
+  if (index) indexCatalog(id, result.groups);
+  if (retain) retained = { id, groups: result.groups };
+  reply({ type: 'imported', id, result });
+};
+
+self.addEventListener('message', (event: MessageEvent<CatalogWorkerRequest>) => {
+  try {
+    handle(event.data);
+  } catch (err) {
+    reply({ type: 'failed', id: event.data.id, message: err instanceof Error ? err.message : 'Could not read the catalog.' });
+  }
+});
@@ -0,0 +1,182 @@
+
+import { ImportResult, ProductGroup } from './types';
+import { ColumnMapping, resolveColumnMapping } from './columns';
+import { readCSVRows } from './utils';
+import { SearchResult } from './search';
+
+export interface CatalogProgress {
+  phase: 'parsing' | 'indexing';
+  // Characters read so far while parsing; both are 0 while indexing
+  done: number;
+  total: number;
+}
+
+export type CatalogWorkerRequest =
+  // `index` replaces the catalog that search requests run against; `retain` keeps the groups for a later 'index'
+  | { type: 'import'; id: number; csv: string; mapping: ColumnMapping; index: boolean; retain: boolean }
+  // Indexes the groups the worker kept from an earlier import, without parsing the file again
+  | { type: 'index'; id: number; importId: number }
+  | { type: 'search'; id: number; query: string };
+
+// Search hits refer to groups by position so the catalog isn't cloned back on every keystroke
+export interface SearchHit extends Omit<SearchResult, 'group'> {
+  groupIdx: number;
+}
+
+export type CatalogWorkerResponse =
+  | { type: 'progress'; id: number; progress: CatalogProgress }
+  | { type: 'imported'; id: number; result: ImportResult }
+  | { type: 'indexed'; id: number }
+  | { type: 'searched'; id: number; catalogId: number; hits: SearchHit[] }
+  | { type: 'failed'; id: number; message: string };
+
+interface PendingRequest {
+  resolve: (response: CatalogWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: CatalogProgress) => void;
+}
+
+// Parses a whole catalog off the main thread, for callers that only need its groups
+export type CatalogParser = (csv: string) => Promise<ProductGroup[]>;
+
+export interface CatalogWorker {
+  // Without a mapping, the one saved for the file's header layout (or detected from it) is used
+  importCatalog: (
+    csv: string,
+    options?: { mapping?: ColumnMapping; index?: boolean; onProgress?: (progress: CatalogProgress) => void }
+  ) => Promise<ImportResult>;
+  // Leaves the indexed catalog that search runs against untouched
+  parseCatalog: CatalogParser;
+  // Makes a result from importCatalog the catalog search runs against. The worker keeps only its latest
+  // import, so an older one is parsed again. Resolves to the groups search hits will point into.
+  indexImport: (result: ImportResult, onProgress?: (progress: CatalogProgress) => void) => Promise<ProductGroup[]>;
+  // Resolves to null when the catalog was replaced before the search ran
+  search: (query: string) => Promise<SearchResult[] | null>;
+  terminate: () => void;
+}
+
+// Parsing and search indexing run in a Web Worker so a national price file doesn't freeze the UI.
+// The worker is started on first use and restarted after terminate().
+export const createCatalogWorker = (): CatalogWorker => {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  const pending = new Map<number, PendingRequest>();
+  // Groups of the most recent indexed import, which search hits point into
+  let indexed: { id: number; groups: ProductGroup[] } = { id: 0, groups: [] };
+  // What the indexed catalog was parsed from, so it can be indexed again if the worker crashes
+  let indexedSource: { csv: string; mapping: ColumnMapping } | null = null;
+  // Searches wait for a crash recovery so they don't run against an empty catalog
+  let recovery: { id: number; done: Promise<void> } | null = null;
+  // Where each import came from, so indexImport can find it in the worker or parse it again
+  const importSources = new WeakMap<ImportResult, { id: number; csv: string; mapping: ColumnMapping }>();
+
+  const failAll = (message: string) => {
+    pending.forEach(p => p.reject(new Error(message)));
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+    worker = new Worker(new URL('./catalog.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CatalogWorkerResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      if (response.type === 'progress') {
+        request.onProgress?.(response.progress);
+        return;
+      }
+      pending.delete(response.id);
+      if (response.type === 'failed') request.reject(new Error(response.message));
+      else request.resolve(response);
+    };
+    worker.onerror = (event) => {
+      // A file that crashes the worker while being re-indexed would otherwise crash it again forever
+      const crashedWhileRecovering = recovery !== null && pending.has(recovery.id);
+      failAll(event.message || 'The catalog worker stopped unexpectedly.');
+      worker?.terminate();
+      worker = null;
+      const { groups } = indexed;
+      indexed = { id: 0, groups: [] };
+      if (indexedSource && !crashedWhileRecovering) reindex(indexedSource, groups);
+      else indexedSource = null;
+    };
+    return worker;
+  };
+
+  const send = (request: CatalogWorkerRequest, onProgress?: PendingRequest['onProgress']) =>
+    new Promise<CatalogWorkerResponse>((resolve, reject) => {
+      pending.set(request.id, { resolve, reject, onProgress });
+      getWorker().postMessage(request);
+    });
+
+  // The same text and mapping parse into the same groups in the same order, so search hits from the
+  // new worker still point into the groups the app already holds
+  const reindex = (source: { csv: string; mapping: ColumnMapping }, groups: ProductGroup[]) => {
+    const id = nextId++;
+    indexed = { id, groups: [] };
+    const done = send({ type: 'import', id, csv: source.csv, mapping: source.mapping, index: true, retain: false })
+      .then(() => { if (indexed.id === id) indexed = { id, groups }; })
+      .catch(() => undefined)
+      .finally(() => { if (recovery?.id === id) recovery = null; });
+    recovery = { id, done };
+  };
+
+  const runImport = async (
+    csv: string,
+    { mapping, index = false, retain = false, onProgress }: {
+      mapping?: ColumnMapping; index?: boolean; retain?: boolean; onProgress?: (progress: CatalogProgress) => void;
+    }
+  ) => {
+    const resolved = mapping || resolveColumnMapping(readCSVRows(csv, 1)[0] || []);
+    const id = nextId++;
+    if (index) {
+      indexed = { id, groups: [] };
+      indexedSource = { csv, mapping: resolved };
+    }
+    const response = await send({ type: 'import', id, csv, mapping: resolved, index, retain }, onProgress);
+    if (response.type !== 'imported') throw new Error('Unexpected response from the catalog worker.');
+    if (index && indexed.id === id) indexed = { id, groups: response.result.groups };
+    importSources.set(response.result, { id, csv, mapping: resolved });
+    return response.result;
+  };
+
+  // Without indexing, the worker holds on to the result so an upload confirmed after review isn't parsed twice
+  const importCatalog: CatalogWorker['importCatalog'] = (csv, { mapping, index = false, onProgress } = {}) =>
+    runImport(csv, { mapping, index, retain: !index, onProgress });
+
+  return {
+    importCatalog,
+    parseCatalog: async (csv) => (await runImport(csv, {})).groups,
+    indexImport: async (result, onProgress) => {
+      const source = importSources.get(result);
+      if (!source) throw new Error('That catalog was not read by the catalog worker.');
+      const id = nextId++;
+      indexed = { id, groups: [] };
+      indexedSource = { csv: source.csv, mapping: source.mapping };
+      try {
+        const response = await send({ type: 'index', id, importId: source.id }, onProgress);
+        if (response.type !== 'indexed') throw new Error('Unexpected response from the catalog worker.');
+      } catch {
+        return (await importCatalog(source.csv, { mapping: source.mapping, index: true, onProgress })).groups;
+      }
+      if (indexed.id === id) indexed = { id, groups: result.groups };
+      return result.groups;
+    },
+    search: async (query) => {
+      if (recovery) await recovery.done;
+      const response = await send({ type: 'search', id: nextId++, query });
+      if (response.type !== 'searched' || response.catalogId !== indexed.id) return null;
+      const { groups } = indexed;
+      return response.hits.map(({ groupIdx, ...hit }) => ({ ...hit, group: groups[groupIdx] }));
+    },
+    terminate: () => {
+      failAll('The catalog worker was stopped.');
+      worker?.terminate();
+      worker = null;
+      indexed = { id: 0, groups: [] };
+      indexedSource = null;
+      recovery = null;
+    },
+  };
+};
@@ -0,0 +1,134 @@
+
+export const COLUMN_MAPPINGS_STORAGE_KEY = 'state_chemical_column_mappings_v1';
+
+export type ColumnKey =
+  | 'productLine'
+  | 'family'
+  | 'parentName'
+  | 'sku'
+  | 'description'
+  | 'unit'
+  | 'stdPrice'
+  | 'discountPercent'
+  | 'floorPrice'
+  | 'givePrice'
+  | 'gsaPrice'
+  | 'quantityCode'
+  | 'dotClass'
+  | 'weight'
+  | 'productInformationCode'
+  | 'location'
+  | 'accessories'
+  | 'classCode';
+
+// Column index for each field, by position in the header row
+export type ColumnMapping = Partial<Record<ColumnKey, number>>;
+
+export interface ColumnDefinition {
+  key: ColumnKey;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+// Aliases are compared after normalizeHeader, so case, spaces and punctuation don't matter
+export const COLUMN_DEFINITIONS: ColumnDefinition[] = [
+  { key: 'productLine', label: 'Product Line', required: false, aliases: ['productlinedescription', 'productline', 'line'] },
+  { key: 'family', label: 'Family', required: false, aliases: ['productfamilydescription', 'productfamily', 'family'] },
+  { key: 'parentName', label: 'Parent Product', required: true, aliases: ['productparentdescription', 'productparent', 'parent', 'parentname'] },
+  { key: 'sku', label: 'SKU', required: true, aliases: ['material3', 'material', 'materialnumber', 'sku', 'itemnumber', 'item'] },
+  { key: 'description', label: 'Description', required: true, aliases: ['materialdescription', 'description', 'itemdescription'] },
+  { key: 'unit', label: 'Unit of Measure', required: false, aliases: ['baseunitofmeasure1', 'baseunitofmeasure', 'unitofmeasure', 'uom', 'unit'] },
+  { key: 'stdPrice', label: 'Standard Price', required: true, aliases: ['stdprice1', 'stdprice', 'standardprice', 'standard', 'listprice'] },
+  { key: 'discountPercent', label: 'Discount %', required: false, aliases: ['discountpercent', 'discount', 'discountpct'] },
+  { key: 'floorPrice', label: 'Floor Price', required: true, aliases: ['floorprice', 'floor'] },
+  { key: 'givePrice', label: 'Give Price', required: true, aliases: ['giveprice', 'give'] },
+  { key: 'gsaPrice', label: 'GSA Price', required: true, aliases: ['gsaprice', 'gsa'] },
+  { key: 'quantityCode', label: 'Quantity Code', required: false, aliases: ['quantitycode', 'qtycode'] },
+  { key: 'dotClass', label: 'DOT Class', required: false, aliases: ['dotclass', 'dot', 'hazmatclass'] },
+  { key: 'weight', label: 'Gross Weight', required: false, aliases: ['grossweight', 'weight', 'shippingweight'] },
+  { key: 'productInformationCode', label: 'Product Info Code', required: false, aliases: ['productinformationcode', 'infocode'] },
+  { key: 'location', label: 'Location', required: false, aliases: ['location', 'warehouse'] },
+  { key: 'accessories', label: 'Accessories', required: false, aliases: ['accessory1', 'accessories', 'accessory'] },
+  { key: 'classCode', label: 'SCS Class', required: false, aliases: ['scsclass', 'classcode', 'productclass'] },
+];
+
+// Positional layout of the original pricing report, used when a file has no recognizable header
+export const LEGACY_COLUMN_MAPPING: ColumnMapping = {
+  productLine: 0, family: 1, parentName: 2, sku: 3, description: 4, unit: 5, stdPrice: 6, discountPercent: 7,
+  floorPrice: 8, givePrice: 9, gsaPrice: 10, quantityCode: 11, dotClass: 12, weight: 13, location: 14,
+  productInformationCode: 15, accessories: 16,
+};
+
+export const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Identifies a file layout independently of padding and capitalisation
+export const getLayoutSignature = (header: string[]) => header.map(normalizeHeader).join('|');
+
+export const detectColumnMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+
+  // Resolve alias by alias so the most specific names claim their column first
+  COLUMN_DEFINITIONS.forEach(def => {
+    for (const alias of def.aliases) {
+      const idx = normalized.findIndex((h, i) => h === alias && !taken.has(i));
+      if (idx !== -1) {
+        mapping[def.key] = idx;
+        taken.add(idx);
+        return;
+      }
+    }
+  });
+
+  return mapping;
+};
+
+export const getMissingColumns = (mapping: ColumnMapping): ColumnDefinition[] =>
+  COLUMN_DEFINITIONS.filter(def => def.required && mapping[def.key] === undefined);
+
+const INFO_CODE_PATTERN = /^[0-9X]{2}\d*[A-Z]?\d+G[0-9X]+$/;
+
+// The standard export labels ProductInformationCode and Location in the wrong order relative to
+// the data. Detect that from the values themselves and swap the two indexes back.
+export const reconcileInfoCodeColumn = (mapping: ColumnMapping, rows: string[][]): ColumnMapping => {
+  const infoIdx = mapping.productInformationCode;
+  const locIdx = mapping.location;
+  if (infoIdx === undefined || locIdx === undefined) return mapping;
+
+  const sample = rows.slice(0, 50);
+  const score = (idx: number) => sample.filter(r => INFO_CODE_PATTERN.test((r[idx] || '').trim())).length;
+  if (score(locIdx) > score(infoIdx)) {
+    return { ...mapping, productInformationCode: locIdx, location: infoIdx };
+  }
+  return mapping;
+};
+
+// Saved mappings live in localStorage, which a Worker can't reach; resolve mappings before handing a file to one
+export const loadSavedMappings = (): Record<string, ColumnMapping> => {
+  if (typeof localStorage === 'undefined') {
+    throw new Error('Saved column mappings can only be read on the main thread.');
+  }
+  try {
+    return JSON.parse(localStorage.getItem(COLUMN_MAPPINGS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveColumnMapping = (header: string[], mapping: ColumnMapping) => {
+  const saved = loadSavedMappings();
+  saved[getLayoutSignature(header)] = mapping;
+  localStorage.setItem(COLUMN_MAPPINGS_STORAGE_KEY, JSON.stringify(saved));
+};
+
+// A mapping the user confirmed for this exact layout wins over auto-detection
+export const resolveColumnMapping = (header: string[]): ColumnMapping => {
+  const saved = loadSavedMappings()[getLayoutSignature(header)];
+  if (saved) return saved;
+
+  const detected = detectColumnMapping(header);
+  if (Object.keys(detected).length === 0) return LEGACY_COLUMN_MAPPING;
+  return detected;
+};
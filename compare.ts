@@ -0,0 +1,58 @@
+
+import { ProductVariant, PriceTier } from './types';
+import { getTierPrice } from './utils';
+import { pricePerGallon } from './packaging';
+
+export const COMPARE_STORAGE_KEY = 'state_chemical_compare_v1';
+
+export const MAX_COMPARE_ITEMS = 8;
+
+export interface ComparisonRow {
+  variant: ProductVariant;
+  parentName: string;
+  packCount: number;
+  prices: Record<PriceTier, number>;
+  // null when the report weight is a placeholder (0.001) or missing
+  pricePerPound: Record<PriceTier, number | null>;
+  pricePerUnit: Record<PriceTier, number>;
+  // null when the description gives no liquid volume
+  pricePerGallon: Record<PriceTier, number | null>;
+}
+
+export const loadComparedSkus = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(COMPARE_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((s): s is string => typeof s === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveComparedSkus = (skus: string[]) => {
+  localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(skus));
+};
+
+export const toggleComparedSku = (skus: string[], sku: string): string[] => {
+  if (skus.includes(sku)) return skus.filter(s => s !== sku);
+  if (skus.length >= MAX_COMPARE_ITEMS) return skus;
+  return [...skus, sku];
+};
+
+const TIERS = Object.values(PriceTier);
+
+const byTier = <T>(fn: (tier: PriceTier) => T) =>
+  TIERS.reduce((acc, tier) => ({ ...acc, [tier]: fn(tier) }), {} as Record<PriceTier, T>);
+
+export const buildComparisonRow = (variant: ProductVariant, parentName: string): ComparisonRow => {
+  const { packCount } = variant.packaging;
+  const hasWeight = variant.weight > 0.01;
+  return {
+    variant,
+    parentName,
+    packCount,
+    prices: byTier(tier => getTierPrice(variant, tier)),
+    pricePerPound: byTier(tier => (hasWeight ? getTierPrice(variant, tier) / variant.weight : null)),
+    pricePerUnit: byTier(tier => getTierPrice(variant, tier) / packCount),
+    pricePerGallon: byTier(tier => pricePerGallon(getTierPrice(variant, tier), variant.packaging)),
+  };
+};
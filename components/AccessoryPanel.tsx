@@ -0,0 +1,175 @@
+
+import React, { useEffect, useState } from 'react';
+import { Puzzle, PackagePlus, Link2, Unlink, AlertCircle } from 'lucide-react';
+import { ProductVariant } from '../types';
+import { formatCurrency } from '../utils';
+import { AccessoryRecommendations } from '../accessories';
+import { usePricingVisibility } from '../presentation';
+
+interface AccessoryPanelProps {
+  variant: ProductVariant;
+  recommendations: AccessoryRecommendations;
+  variants: Map<string, ProductVariant>;
+  quantity: number;
+  // What each accessory would cost once added to the quote, i.e. the account or quote tier price
+  priceFor: (variant: ProductVariant) => number;
+  onAddToQuote: (accessorySkus: string[]) => void;
+  onLink: (code: string, sku: string, required: boolean, label: string) => void;
+  onUnlink: (code: string, sku: string) => void;
+  onOpenSku: (sku: string) => void;
+}
+
+interface LinkDraft {
+  sku: string;
+  label: string;
+  required: boolean;
+}
+
+const emptyDraft: LinkDraft = { sku: '', label: '', required: true };
+
+const AccessoryPanel: React.FC<AccessoryPanelProps> = ({
+  variant, recommendations, variants, quantity, priceFor, onAddToQuote, onLink, onUnlink, onOpenSku,
+}) => {
+  const { showInternal } = usePricingVisibility();
+  const { suggestions, unresolvedCodes } = recommendations;
+  const [selected, setSelected] = useState<string[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, LinkDraft>>({});
+
+  // Required accessories start checked so "add together" does the safe thing by default
+  useEffect(() => {
+    setSelected(suggestions.filter(s => s.required).map(s => s.variant.sku));
+  }, [variant.sku, suggestions]);
+
+  const toggle = (sku: string) =>
+    setSelected(prev => (prev.includes(sku) ? prev.filter(s => s !== sku) : [...prev, sku]));
+
+  const draftFor = (code: string) => drafts[code] || emptyDraft;
+  const setDraft = (code: string, patch: Partial<LinkDraft>) =>
+    setDrafts(prev => ({ ...prev, [code]: { ...draftFor(code), ...patch } }));
+
+  const submitLink = (code: string) => {
+    const draft = draftFor(code);
+    const sku = draft.sku.trim();
+    if (!variants.has(sku)) return;
+    onLink(code, sku, draft.required, draft.label);
+    setDrafts(prev => {
+      const next = { ...prev };
+      delete next[code];
+      return next;
+    });
+  };
+
+  if (suggestions.length === 0 && (unresolvedCodes.length === 0 || !showInternal)) return null;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
+          <Puzzle className="w-4 h-4 mr-2 text-indigo-500" />
+          Required &amp; Suggested Accessories
+        </h3>
+        {suggestions.length > 0 && (
+          <button
+            onClick={() => onAddToQuote(selected)}
+            className="flex items-center space-x-1.5 px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all active:scale-95"
+          >
+            <PackagePlus className="w-3.5 h-3.5" />
+            <span>Add {quantity} × {variant.sku}{selected.length > 0 ? ` + ${selected.length} accessor${selected.length === 1 ? 'y' : 'ies'}` : ''}</span>
+          </button>
+        )}
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          {suggestions.map(s => (
+            <div
+              key={s.variant.sku}
+              className={`flex items-center gap-4 p-3 rounded-xl border transition-all ${
+                selected.includes(s.variant.sku) ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(s.variant.sku)}
+                onChange={() => toggle(s.variant.sku)}
+                className="w-4 h-4 accent-indigo-600"
+              />
+              <button onClick={() => onOpenSku(s.variant.sku)} className="flex-1 min-w-0 text-left hover:text-indigo-600">
+                <p className="text-sm font-bold text-slate-800 truncate">{s.variant.description}</p>
+                <p className="text-xs text-slate-400 font-mono truncate">
+                  {s.variant.sku} • {s.parentName}{s.label ? ` • ${s.label}` : ''}
+                </p>
+              </button>
+              <span className={`text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-wider ${
+                s.required ? 'bg-rose-50 text-rose-600' : 'bg-slate-100 text-slate-500'
+              }`}>
+                {s.required ? 'Required' : s.source === 'group' ? 'Related' : 'Suggested'}
+              </span>
+              {s.code && <span className="text-xs font-bold font-mono text-slate-400">{s.code}</span>}
+              <span className="text-sm font-bold tabular-nums text-slate-700 w-20 text-right">{formatCurrency(priceFor(s.variant))}</span>
+              {showInternal && s.code && (
+                <button onClick={() => onUnlink(s.code as string, s.variant.sku)} className="p-1 text-slate-300 hover:text-red-600 rounded-md" title={`Unlink from ${s.code}`}>
+                  <Unlink className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showInternal && unresolvedCodes.length > 0 && (
+        <div className={suggestions.length > 0 ? 'mt-6 pt-6 border-t border-slate-100' : ''}>
+          <p className="flex items-center text-xs font-semibold text-amber-600 mb-3">
+            <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+            These accessory codes aren't linked to a catalog product yet. Links apply to every product using the code.
+          </p>
+          <div className="space-y-2">
+            {unresolvedCodes.map(code => {
+              const draft = draftFor(code);
+              const target = variants.get(draft.sku.trim());
+              return (
+                <div key={code} className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs font-bold font-mono px-2 py-1 rounded-md bg-slate-100 text-slate-600 w-12 text-center">{code}</span>
+                  <input
+                    type="text"
+                    value={draft.sku}
+                    onChange={(e) => setDraft(code, { sku: e.target.value })}
+                    placeholder="SKU"
+                    className="w-28 bg-slate-100 rounded-lg px-2 py-1.5 text-xs font-mono font-semibold outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  />
+                  <input
+                    type="text"
+                    value={draft.label}
+                    onChange={(e) => setDraft(code, { label: e.target.value })}
+                    placeholder="What it is, e.g. drum pump"
+                    className="flex-1 min-w-[140px] bg-slate-100 rounded-lg px-2 py-1.5 text-xs font-semibold outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  />
+                  <label className="flex items-center text-xs font-semibold text-slate-500">
+                    <input
+                      type="checkbox"
+                      checked={draft.required}
+                      onChange={(e) => setDraft(code, { required: e.target.checked })}
+                      className="w-3.5 h-3.5 mr-1.5 accent-indigo-600"
+                    />
+                    Required
+                  </label>
+                  <button
+                    onClick={() => submitLink(code)}
+                    disabled={!target}
+                    className="flex items-center space-x-1 px-2.5 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold hover:bg-slate-800 transition-all disabled:opacity-40"
+                    title={target ? `Link ${code} to ${target.description}` : 'Enter a SKU from the loaded catalog'}
+                  >
+                    <Link2 className="w-3.5 h-3.5" />
+                    <span>Link</span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccessoryPanel;
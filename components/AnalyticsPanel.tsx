@@ -0,0 +1,258 @@
+
+import React, { useMemo, useState } from 'react';
+import { BarChart3, TriangleAlert, TrendingDown, Info } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { ProductGroup } from '../types';
+import { formatCurrency } from '../utils';
+import {
+  AnalyticsGrouping, PricingOutlierKind, OUTLIER_LABELS,
+  computeRatioStats, computeRatioDistribution, findPricingOutliers, findNegotiatingRoom,
+} from '../analytics';
+import { findInfoCodeIssues, INFO_CODE_FIELD_LABELS } from '../infoCode';
+
+interface AnalyticsPanelProps {
+  groups: ProductGroup[];
+  onOpenSku: (sku: string) => void;
+}
+
+const tooltipStyle = { borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' };
+const axisTick = { fontSize: 10, fill: '#94a3b8', fontWeight: 700 };
+
+const formatRatio = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ groups, onOpenSku }) => {
+  const [grouping, setGrouping] = useState<AnalyticsGrouping>('productLine');
+  const [outlierKind, setOutlierKind] = useState<PricingOutlierKind | 'all'>('all');
+
+  const ratioStats = useMemo(() => computeRatioStats(groups, grouping), [groups, grouping]);
+  const distribution = useMemo(() => computeRatioDistribution(groups), [groups]);
+  const outliers = useMemo(() => findPricingOutliers(groups), [groups]);
+  const negotiatingRoom = useMemo(() => findNegotiatingRoom(groups), [groups]);
+  const infoCodeIssues = useMemo(() => findInfoCodeIssues(groups), [groups]);
+
+  const ratioChartData = useMemo(() => ratioStats.map(s => ({
+    name: s.key,
+    'Floor / Standard': +(s.avgFloorRatio * 100).toFixed(1),
+    'GSA / Standard': s.avgGsaRatio === null ? 0 : +(s.avgGsaRatio * 100).toFixed(1),
+  })), [ratioStats]);
+
+  const outlierCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    outliers.forEach(o => { counts[o.kind] = (counts[o.kind] || 0) + 1; });
+    return counts;
+  }, [outliers]);
+
+  const visibleOutliers = outliers.filter(o => outlierKind === 'all' || o.kind === outlierKind);
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center space-x-3 text-indigo-500">
+            <BarChart3 className="w-4 h-4" />
+            <span className="text-sm font-bold uppercase tracking-wider">Margin &amp; Discount Analytics</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {([['productLine', 'By Product Line'], ['family', 'By Family']] as [AnalyticsGrouping, string][]).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setGrouping(key)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                  grouping === key ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-4">Average Ratio to Standard</h3>
+        <div style={{ height: Math.max(260, ratioChartData.length * 28) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={ratioChartData} layout="vertical" margin={{ top: 0, right: 20, left: 40, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="4 4" horizontal={false} stroke="#f1f5f9" />
+              <XAxis type="number" domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={axisTick} />
+              <YAxis type="category" dataKey="name" width={170} axisLine={false} tickLine={false} tick={axisTick} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#f8fafc' }} formatter={(value: number, name: string) => [`${value}%`, name]} />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+              <Bar dataKey="Floor / Standard" fill="#f59e0b" radius={[0, 6, 6, 0]} />
+              <Bar dataKey="GSA / Standard" fill="#ef4444" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="overflow-x-auto mt-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                <th className="py-3 pr-4">{grouping === 'productLine' ? 'Product Line' : 'Family'}</th>
+                <th className="py-3 pr-4 text-right">SKUs</th>
+                <th className="py-3 pr-4 text-right">Floor / Std (avg)</th>
+                <th className="py-3 pr-4 text-right">Floor / Std (range)</th>
+                <th className="py-3 text-right">GSA / Std (avg)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ratioStats.map(s => (
+                <tr key={s.key} className="border-b border-slate-50">
+                  <td className="py-2 pr-4 font-bold text-slate-700">{s.key}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums text-slate-500">{s.skuCount}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums font-semibold text-amber-600">{formatRatio(s.avgFloorRatio)}</td>
+                  <td className="py-2 pr-4 text-right tabular-nums text-slate-500">{formatRatio(s.minFloorRatio)} – {formatRatio(s.maxFloorRatio)}</td>
+                  <td className="py-2 text-right tabular-nums font-semibold text-rose-600">{formatRatio(s.avgGsaRatio)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">Ratio Distribution (SKU count)</h3>
+        <div className="h-[280px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={distribution} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="label" axisLine={false} tickLine={false} tick={axisTick} />
+              <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+              <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#f8fafc' }} />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+              <Bar dataKey="floor" name="Floor / Standard" fill="#f59e0b" radius={[6, 6, 0, 0]} />
+              <Bar dataKey="gsa" name="GSA / Standard" fill="#ef4444" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 2xl:grid-cols-2 gap-6">
+        <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+            <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
+              <TriangleAlert className="w-4 h-4 mr-2 text-amber-500" />
+              Pricing Outliers
+            </h3>
+            <select
+              value={outlierKind}
+              onChange={(e) => setOutlierKind(e.target.value as PricingOutlierKind | 'all')}
+              className="bg-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+            >
+              <option value="all">All ({outliers.length})</option>
+              {(Object.keys(OUTLIER_LABELS) as PricingOutlierKind[]).map(kind => (
+                <option key={kind} value={kind}>{OUTLIER_LABELS[kind]} ({outlierCounts[kind] || 0})</option>
+              ))}
+            </select>
+          </div>
+          <div className="max-h-[420px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-3 pr-4">SKU</th>
+                  <th className="py-3 pr-4">Issue</th>
+                  <th className="py-3 text-right">Over By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleOutliers.map((o, i) => (
+                  <tr key={`${o.variant.sku}-${o.kind}-${i}`} className="border-b border-slate-50 hover:bg-slate-50/50">
+                    <td className="py-2 pr-4">
+                      <button onClick={() => onOpenSku(o.variant.sku)} className="text-left hover:text-indigo-600">
+                        <p className="font-mono font-bold text-slate-700">{o.variant.sku}</p>
+                        <p className="text-xs text-slate-400 truncate max-w-[240px]">{o.variant.description}</p>
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4 text-xs font-bold text-amber-600">{OUTLIER_LABELS[o.kind]}</td>
+                    <td className="py-2 text-right tabular-nums font-semibold text-rose-600">{formatCurrency(o.excess)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+          <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center mb-6">
+            <TrendingDown className="w-4 h-4 mr-2 text-emerald-500" />
+            Widest Negotiating Room
+          </h3>
+          <div className="max-h-[420px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-3 pr-4">SKU</th>
+                  <th className="py-3 pr-4 text-right">Standard</th>
+                  <th className="py-3 pr-4 text-right">Floor</th>
+                  <th className="py-3 text-right">Room</th>
+                </tr>
+              </thead>
+              <tbody>
+                {negotiatingRoom.map(r => (
+                  <tr key={r.variant.sku} className="border-b border-slate-50 hover:bg-slate-50/50">
+                    <td className="py-2 pr-4">
+                      <button onClick={() => onOpenSku(r.variant.sku)} className="text-left hover:text-indigo-600">
+                        <p className="font-mono font-bold text-slate-700">{r.variant.sku}</p>
+                        <p className="text-xs text-slate-400 truncate max-w-[200px]">{r.parentName}</p>
+                      </button>
+                    </td>
+                    <td className="py-2 pr-4 text-right tabular-nums text-slate-500">{formatCurrency(r.variant.stdPrice)}</td>
+                    <td className="py-2 pr-4 text-right tabular-nums text-amber-600">{formatCurrency(r.variant.floorPrice)}</td>
+                    <td className="py-2 text-right tabular-nums font-bold text-emerald-600">
+                      {formatCurrency(r.room)} <span className="text-xs text-slate-400 font-semibold">({r.roomPercent.toFixed(0)}%)</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center mb-2">
+          <Info className="w-4 h-4 mr-2 text-rose-500" />
+          Info Code Mismatches ({infoCodeIssues.length})
+        </h3>
+        <p className="text-xs font-medium text-slate-400 mb-6">
+          SKUs whose ProductInformationCode disagrees with the row's own Floor, Give, Qty Code or Max Discount.
+        </p>
+        {infoCodeIssues.length === 0 ? (
+          <p className="text-sm font-semibold text-emerald-600">Every info code matches its price columns.</p>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-3 pr-4">SKU</th>
+                  <th className="py-3 pr-4">Info Code</th>
+                  <th className="py-3 pr-4">Field</th>
+                  <th className="py-3 pr-4">Code Says</th>
+                  <th className="py-3">Row Has</th>
+                </tr>
+              </thead>
+              <tbody>
+                {infoCodeIssues.flatMap(issue => issue.mismatches.map((m, i) => (
+                  <tr key={`${issue.variant.sku}-${m.field}`} className="border-b border-slate-50 hover:bg-slate-50/50">
+                    <td className="py-2 pr-4">
+                      {i === 0 && (
+                        <button onClick={() => onOpenSku(issue.variant.sku)} className="text-left hover:text-indigo-600">
+                          <p className="font-mono font-bold text-slate-700">{issue.variant.sku}</p>
+                          <p className="text-xs text-slate-400 truncate max-w-[240px]">{issue.parentName}</p>
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-500">{i === 0 && issue.variant.productInformationCode}</td>
+                    <td className="py-2 pr-4 text-xs font-bold text-rose-600">{INFO_CODE_FIELD_LABELS[m.field]}</td>
+                    <td className="py-2 pr-4 text-xs font-semibold text-slate-700 tabular-nums">{m.decoded}</td>
+                    <td className="py-2 text-xs font-semibold text-slate-700 tabular-nums">{m.actual}</td>
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,150 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronRight, Filter, Layers } from 'lucide-react';
+import { ProductGroup } from '../types';
+import { FamilyNode, LineNode, buildBrowseTree, groupKey, lineLabel } from '../hierarchy';
+import { useVirtualRows } from '../hooks';
+
+interface BrowseTreeProps {
+  groups: ProductGroup[];
+  selectedGroup: ProductGroup | null;
+  onSelect: (group: ProductGroup) => void;
+  onBrowseFamily: (productLine: string, family: string) => void;
+}
+
+// Expanded nodes are flattened into fixed-height rows so only the visible ones are rendered
+const TREE_ROW_HEIGHT = 36;
+
+type TreeRow =
+  | { kind: 'line'; line: LineNode }
+  | { kind: 'family'; family: FamilyNode }
+  | { kind: 'group'; group: ProductGroup };
+
+const rowKey = (row: TreeRow) =>
+  row.kind === 'line' ? `line:${row.line.key}` : row.kind === 'family' ? `family:${row.family.key}` : `group:${row.group.id}`;
+
+const Count: React.FC<{ products?: number; skus: number }> = ({ products, skus }) => (
+  <span className="ml-auto pl-2 text-[10px] font-bold text-slate-400 tabular-nums shrink-0">
+    {products !== undefined && `${products} • `}{skus} SKUs
+  </span>
+);
+
+const BrowseTree: React.FC<BrowseTreeProps> = ({ groups, selectedGroup, onSelect, onBrowseFamily }) => {
+  const tree = useMemo(() => buildBrowseTree(groups), [groups]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const spacerRef = useRef<HTMLUListElement>(null);
+  // Set when a product is opened elsewhere, until its row has been scrolled into view
+  const revealId = useRef<string | null>(null);
+
+  const rows = useMemo(() => tree.flatMap((line): TreeRow[] => [
+    { kind: 'line', line },
+    ...(expanded.has(line.key) ? line.families.flatMap((family): TreeRow[] => [
+      { kind: 'family', family },
+      ...(expanded.has(family.key) ? family.groups.map((group): TreeRow => ({ kind: 'group', group })) : []),
+    ]) : []),
+  ]), [tree, expanded]);
+
+  const { start, end, totalHeight, scrollToRow } = useVirtualRows(spacerRef, rows.length, TREE_ROW_HEIGHT);
+
+  // Opening a product from search or a link reveals where it sits
+  useEffect(() => {
+    if (!selectedGroup) return;
+    revealId.current = selectedGroup.id;
+    const lineKey = selectedGroup.productLine;
+    const familyKey = groupKey(selectedGroup.productLine, selectedGroup.family, '');
+    setExpanded(prev => (prev.has(lineKey) && prev.has(familyKey) ? prev : new Set([...prev, lineKey, familyKey])));
+  }, [selectedGroup]);
+
+  useEffect(() => {
+    if (!revealId.current) return;
+    const idx = rows.findIndex(row => row.kind === 'group' && row.group.id === revealId.current);
+    if (idx === -1) return;
+    revealId.current = null;
+    scrollToRow(idx);
+  }, [rows, scrollToRow]);
+
+  const toggle = (key: string) => setExpanded(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  if (tree.length === 0) return null;
+
+  const renderRow = (row: TreeRow, style: React.CSSProperties) => {
+    if (row.kind === 'line') {
+      const { line } = row;
+      const open = expanded.has(line.key);
+      return (
+        <li key={rowKey(row)} role="treeitem" aria-level={1} aria-expanded={open} aria-selected={false} className="absolute inset-x-0" style={style}>
+          <button
+            onClick={() => toggle(line.key)}
+            className="w-full h-full flex items-center px-3 rounded-xl text-left hover:bg-white transition-all"
+          >
+            <ChevronRight className={`w-3.5 h-3.5 mr-2 text-slate-400 shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} />
+            <Layers className="w-3.5 h-3.5 mr-2 text-indigo-400 shrink-0" />
+            <span className="text-xs font-black text-slate-700 uppercase tracking-wider truncate">{lineLabel(line.productLine)}</span>
+            <Count products={line.productCount} skus={line.skuCount} />
+          </button>
+        </li>
+      );
+    }
+
+    if (row.kind === 'family') {
+      const { family } = row;
+      const open = expanded.has(family.key);
+      return (
+        <li key={rowKey(row)} role="treeitem" aria-level={2} aria-expanded={open} aria-selected={false} className="absolute inset-x-0 ml-5 border-l border-slate-200 pl-2" style={style}>
+          <div className="group/family h-full flex items-center">
+            <button
+              onClick={() => toggle(family.key)}
+              className="flex-1 min-w-0 h-full flex items-center px-2 rounded-lg text-left hover:bg-white transition-all"
+            >
+              <ChevronRight className={`w-3 h-3 mr-1.5 text-slate-400 shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} />
+              <span className="text-xs font-bold text-slate-600 truncate">{family.family}</span>
+              <Count products={family.groups.length} skus={family.skuCount} />
+            </button>
+            <button
+              onClick={() => onBrowseFamily(family.productLine, family.family)}
+              className="p-1.5 text-slate-300 hover:text-indigo-600 rounded-lg opacity-0 group-hover/family:opacity-100 focus:opacity-100 transition-all"
+              title={`Browse all in ${family.family}`}
+            >
+              <Filter className="w-3 h-3" />
+            </button>
+          </div>
+        </li>
+      );
+    }
+
+    const { group } = row;
+    const selected = selectedGroup?.id === group.id;
+    return (
+      <li key={rowKey(row)} role="treeitem" aria-level={3} aria-selected={selected} className="absolute inset-x-0 ml-5 border-l border-slate-200 pl-2" style={style}>
+        <div className="h-full ml-4 border-l border-slate-200 pl-2 flex items-center">
+          <button
+            onClick={() => onSelect(group)}
+            className={`w-full flex items-center px-2 py-1.5 rounded-lg text-left transition-all ${
+              selected ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-white hover:text-indigo-600'
+            }`}
+          >
+            <span className="text-xs font-semibold truncate">{group.parentName}</span>
+            <span className={`ml-auto pl-2 text-[10px] font-bold tabular-nums shrink-0 ${selected ? 'text-indigo-200' : 'text-slate-400'}`}>
+              {group.variants.length}
+            </span>
+          </button>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <ul ref={spacerRef} role="tree" aria-label="Browse by product line" className="relative" style={{ height: totalHeight }}>
+      {rows.slice(start, end).map((row, offset) =>
+        renderRow(row, { top: (start + offset) * TREE_ROW_HEIGHT, height: TREE_ROW_HEIGHT })
+      )}
+    </ul>
+  );
+};
+
+export default BrowseTree;
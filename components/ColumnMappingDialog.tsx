@@ -0,0 +1,118 @@
+
+import React, { useState } from 'react';
+import { Columns3, AlertCircle, X } from 'lucide-react';
+import { COLUMN_DEFINITIONS, ColumnKey, ColumnMapping, getMissingColumns } from '../columns';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  header: string[];
+  sampleRow: string[];
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ fileName, header, sampleRow, initialMapping, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const missing = getMissingColumns(mapping);
+
+  const setColumn = (key: ColumnKey, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[key];
+      } else {
+        next[key] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col border border-slate-200">
+        <div className="p-8 pb-4 flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-3 text-indigo-500 mb-2">
+              <Columns3 className="w-4 h-4" />
+              <span className="text-sm font-bold uppercase tracking-wider">Map Columns</span>
+            </div>
+            <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">{fileName}</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              Some required columns could not be matched by name. Pick the matching column for each field; this layout will be remembered.
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-all" title="Cancel import">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-8">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                <th className="py-3 pr-4">Field</th>
+                <th className="py-3 pr-4">File Column</th>
+                <th className="py-3">Sample Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {COLUMN_DEFINITIONS.map(def => {
+                const idx = mapping[def.key];
+                const isMissing = def.required && idx === undefined;
+                return (
+                  <tr key={def.key} className="border-b border-slate-50">
+                    <td className="py-2.5 pr-4 font-bold text-slate-700">
+                      {def.label}
+                      {def.required && <span className="text-rose-500 ml-1">*</span>}
+                    </td>
+                    <td className="py-2.5 pr-4">
+                      <select
+                        value={idx === undefined ? '' : String(idx)}
+                        onChange={(e) => setColumn(def.key, e.target.value)}
+                        className={`w-full rounded-lg px-2 py-1.5 text-xs font-semibold outline-none focus:ring-2 focus:ring-indigo-500/20 ${
+                          isMissing ? 'bg-rose-50 text-rose-700 ring-1 ring-rose-200' : 'bg-slate-100 text-slate-700'
+                        }`}
+                      >
+                        <option value="">— Not in file —</option>
+                        {header.map((h, i) => (
+                          <option key={i} value={i}>{i + 1}. {h || '(blank)'}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2.5 font-mono text-xs text-slate-500 truncate max-w-[200px]">
+                      {idx !== undefined ? sampleRow[idx] || '' : ''}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-8 pt-4 flex items-center justify-between gap-4 border-t border-slate-100">
+          {missing.length > 0 ? (
+            <span className="flex items-center text-amber-600 text-xs font-medium">
+              <AlertCircle className="w-4 h-4 mr-2 shrink-0" />
+              Still missing: {missing.map(d => d.label).join(', ')}
+            </span>
+          ) : <span />}
+          <div className="flex items-center space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(mapping)}
+              disabled={missing.length > 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-semibold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+            >
+              Use This Mapping
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,122 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, CornerDownLeft, Search } from 'lucide-react';
+import { PaletteCommand, moveListIndex, rankCommands } from '../keyboard';
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+const SECTION_STYLES: Record<PaletteCommand['section'], string> = {
+  Action: 'bg-indigo-50 text-indigo-600',
+  View: 'bg-slate-100 text-slate-500',
+  Product: 'bg-emerald-50 text-emerald-600',
+  SKU: 'bg-amber-50 text-amber-600',
+  Family: 'bg-sky-50 text-sky-600',
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => rankCommands(commands, query), [commands, query]);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`#palette-option-${activeIndex}`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  // Focus stays in the input; the list is driven through aria-activedescendant
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+      return;
+    }
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(results[activeIndex]);
+      return;
+    }
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const next = moveListIndex(activeIndex, e.key, results.length);
+      if (next !== null) {
+        e.preventDefault();
+        setActiveIndex(next);
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-start justify-center p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-2xl w-full max-w-xl max-h-[70vh] flex flex-col border border-slate-200 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center px-5 border-b border-slate-100">
+          <Search className="w-4 h-4 text-slate-400 shrink-0" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a product, SKU or family, or run an action…"
+            className="flex-1 px-3 py-4 text-sm outline-none bg-transparent"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="palette-listbox"
+            aria-activedescendant={results.length > 0 ? `palette-option-${activeIndex}` : undefined}
+          />
+          <kbd className="text-[10px] font-black text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">Esc</kbd>
+        </div>
+
+        <div ref={listRef} id="palette-listbox" role="listbox" aria-label="Commands" className="flex-1 overflow-y-auto custom-scrollbar p-2">
+          {results.length === 0 ? (
+            <p className="px-3 py-8 text-center text-sm text-slate-400">Nothing matches “{query}”.</p>
+          ) : (
+            results.map((command, i) => (
+              <div
+                key={command.id}
+                id={`palette-option-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                onMouseMove={() => setActiveIndex(i)}
+                onClick={() => runCommand(command)}
+                className={`flex items-center gap-3 px-3 py-2.5 rounded-xl cursor-pointer ${i === activeIndex ? 'bg-indigo-50' : ''}`}
+              >
+                <span className={`text-[9px] font-black px-1.5 py-0.5 rounded uppercase tracking-wider w-16 text-center shrink-0 ${SECTION_STYLES[command.section]}`}>
+                  {command.section}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm font-bold truncate ${i === activeIndex ? 'text-indigo-700' : 'text-slate-800'}`}>{command.label}</p>
+                  {command.detail && <p className="text-xs text-slate-400 truncate">{command.detail}</p>}
+                </div>
+                {i === activeIndex && <CornerDownLeft className="w-3.5 h-3.5 text-indigo-400 shrink-0" />}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-slate-100 flex items-center justify-between text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          <span>↑↓ to move • Enter to run</span>
+          <span className="flex items-center"><Command className="w-3 h-3 mr-1" />K to toggle</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,189 @@
+
+import React, { useMemo, useState } from 'react';
+import { Columns2, X, Trash2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { PriceTier } from '../types';
+import { formatCurrency } from '../utils';
+import { ComparisonRow, MAX_COMPARE_ITEMS } from '../compare';
+import { usePricingVisibility } from '../presentation';
+
+interface ComparePanelProps {
+  rows: ComparisonRow[];
+  onRemove: (sku: string) => void;
+  onClear: () => void;
+  onOpenSku: (sku: string) => void;
+}
+
+type CompareMetric = 'price' | 'perPound' | 'perGallon' | 'perUnit';
+
+const TIER_COLORS: Record<PriceTier, string> = {
+  [PriceTier.Standard]: '#6366f1',
+  [PriceTier.Floor]: '#f59e0b',
+  [PriceTier.Give]: '#10b981',
+  [PriceTier.GSA]: '#ef4444',
+};
+
+const METRICS: { key: CompareMetric; label: string }[] = [
+  { key: 'price', label: 'Price' },
+  { key: 'perPound', label: 'Per lb' },
+  { key: 'perGallon', label: 'Per gal' },
+  { key: 'perUnit', label: 'Per unit in pack' },
+];
+
+const metricValue = (row: ComparisonRow, metric: CompareMetric, tier: PriceTier): number | null => {
+  if (metric === 'perPound') return row.pricePerPound[tier];
+  if (metric === 'perGallon') return row.pricePerGallon[tier];
+  if (metric === 'perUnit') return row.pricePerUnit[tier];
+  return row.prices[tier];
+};
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ rows, onRemove, onClear, onOpenSku }) => {
+  const [metric, setMetric] = useState<CompareMetric>('price');
+  const { tiers } = usePricingVisibility();
+
+  const chartData = useMemo(() => rows.map(row => ({
+    name: row.variant.sku,
+    ...tiers.reduce((acc, tier) => ({ ...acc, [tier]: metricValue(row, metric, tier) ?? 0 }), {} as Partial<Record<PriceTier, number>>),
+  })), [rows, metric, tiers]);
+
+  // Cheapest value per tier gets highlighted so the better buy stands out
+  const bestByTier = useMemo(() => {
+    const best = {} as Record<PriceTier, number | null>;
+    tiers.forEach(tier => {
+      const values = rows.map(r => metricValue(r, metric, tier)).filter((v): v is number => v !== null && v > 0);
+      best[tier] = values.length > 1 ? Math.min(...values) : null;
+    });
+    return best;
+  }, [rows, metric, tiers]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="h-[600px] flex flex-col items-center justify-center bg-white rounded-[40px] border-2 border-dashed border-slate-200 text-center p-12">
+        <div className="bg-indigo-50 p-8 rounded-full mb-8">
+          <Columns2 className="w-16 h-16 text-indigo-400" />
+        </div>
+        <h3 className="text-2xl font-black text-slate-900 mb-3">Nothing to Compare</h3>
+        <p className="max-w-sm text-slate-500 font-medium">
+          Use "Compare" on any variant to pin it here. You can pin up to {MAX_COMPARE_ITEMS} SKUs from the same or different products.
+        </p>
+      </div>
+    );
+  }
+
+  const metricCell = (row: ComparisonRow, tier: PriceTier) => {
+    const value = metricValue(row, metric, tier);
+    if (value === null) return <span className="text-slate-300">—</span>;
+    const isBest = bestByTier[tier] !== null && Math.abs(value - (bestByTier[tier] as number)) < 0.005;
+    return (
+      <span className={isBest ? 'text-emerald-600 font-black' : ''}>
+        {formatCurrency(value)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-3 text-indigo-500">
+            <Columns2 className="w-4 h-4" />
+            <span className="text-sm font-bold uppercase tracking-wider">Compare Variants</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {METRICS.map(m => (
+              <button
+                key={m.key}
+                onClick={() => setMetric(m.key)}
+                className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                  metric === m.key ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+            <button onClick={onClear} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all" title="Clear comparison">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-100 align-top">
+                <th className="py-3 pr-4 text-left text-[10px] font-black text-slate-400 uppercase tracking-widest w-36"></th>
+                {rows.map(row => (
+                  <th key={row.variant.sku} className="py-3 px-3 text-left min-w-[160px]">
+                    <div className="flex items-start justify-between gap-2">
+                      <button onClick={() => onOpenSku(row.variant.sku)} className="text-left hover:text-indigo-600">
+                        <p className="text-[10px] font-black text-indigo-500 uppercase tracking-wider">{row.parentName}</p>
+                        <p className="font-mono font-bold text-slate-800">{row.variant.sku}</p>
+                      </button>
+                      <button onClick={() => onRemove(row.variant.sku)} className="p-1 text-slate-300 hover:text-red-600 rounded-md" title="Remove from comparison">
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-slate-50">
+                <td className="py-2 pr-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Description</td>
+                {rows.map(row => <td key={row.variant.sku} className="py-2 px-3 text-slate-600">{row.variant.description}</td>)}
+              </tr>
+              <tr className="border-b border-slate-50">
+                <td className="py-2 pr-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Unit</td>
+                {rows.map(row => (
+                  <td key={row.variant.sku} className="py-2 px-3 font-bold text-slate-700">
+                    {row.variant.unit}{row.variant.packaging.label && <span className="text-slate-400 font-medium"> • {row.variant.packaging.label}</span>}
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-b border-slate-50">
+                <td className="py-2 pr-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">Weight</td>
+                {rows.map(row => <td key={row.variant.sku} className="py-2 px-3 tabular-nums">{row.variant.weight.toFixed(3)} lbs</td>)}
+              </tr>
+              {tiers.map(tier => (
+                <tr key={tier} className="border-b border-slate-50">
+                  <td className="py-2 pr-4 text-[10px] font-black uppercase tracking-widest" style={{ color: TIER_COLORS[tier] }}>
+                    {tier}{metric === 'perPound' ? ' / lb' : metric === 'perGallon' ? ' / gal' : metric === 'perUnit' ? ' / unit' : ''}
+                  </td>
+                  {rows.map(row => (
+                    <td key={row.variant.sku} className="py-2 px-3 tabular-nums font-semibold text-slate-800">{metricCell(row, tier)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest mb-8">
+          {METRICS.find(m => m.key === metric)?.label} by Tier
+        </h3>
+        <div className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 0, right: 0, left: -10, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="4 4" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8', fontWeight: 700 }} />
+              <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#94a3b8' }} />
+              <Tooltip
+                cursor={{ fill: '#f8fafc', radius: 10 }}
+                contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)' }}
+                formatter={(value: number, name: string) => [formatCurrency(value), name]}
+              />
+              <Legend iconType="circle" wrapperStyle={{ fontSize: 11, fontWeight: 700 }} />
+              {tiers.map(tier => (
+                <Bar key={tier} dataKey={tier} fill={TIER_COLORS[tier]} radius={[6, 6, 0, 0]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,264 @@
+
+import React, { useRef, useState } from 'react';
+import { Users, UserCheck, Plus, Trash2, Upload, Download, X } from 'lucide-react';
+import { ContractRule, ContractRuleKind, ContractRuleScope, CustomerAccount, PriceTier } from '../types';
+import { downloadFile } from '../utils';
+import { createCustomer, customersToJSON, parseCustomersJSON, mergeCustomers } from '../customers';
+
+interface CustomerPanelProps {
+  customers: CustomerAccount[];
+  activeCustomerId: string | null;
+  families: string[];
+  onChange: (customers: CustomerAccount[]) => void;
+  onActivate: (id: string | null) => void;
+}
+
+const TIERS = Object.values(PriceTier);
+
+const inputClass = 'bg-slate-100 rounded-lg px-2 py-1.5 text-sm font-semibold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20';
+
+const CustomerPanel: React.FC<CustomerPanelProps> = ({ customers, activeCustomerId, families, onChange, onActivate }) => {
+  const [editingId, setEditingId] = useState<string | null>(activeCustomerId || customers[0]?.id || null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = customers.find(c => c.id === editingId) || null;
+
+  const updateCustomer = (id: string, patch: Partial<CustomerAccount>) =>
+    onChange(customers.map(c => (c.id === id ? { ...c, ...patch } : c)));
+
+  const updateRule = (index: number, patch: Partial<ContractRule>) => {
+    if (!editing) return;
+    updateCustomer(editing.id, { rules: editing.rules.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+  };
+
+  const addCustomer = () => {
+    const customer = createCustomer(`Account ${customers.length + 1}`);
+    onChange([...customers, customer]);
+    setEditingId(customer.id);
+  };
+
+  const deleteCustomer = (customer: CustomerAccount) => {
+    if (!confirm(`Delete the "${customer.name}" account and its contract prices?`)) return;
+    onChange(customers.filter(c => c.id !== customer.id));
+    if (activeCustomerId === customer.id) onActivate(null);
+    if (editingId === customer.id) setEditingId(null);
+  };
+
+  const exportJson = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(customersToJSON(customers), `customer-accounts-${stamp}.json`, 'application/json');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const imported = parseCustomersJSON(event.target?.result as string);
+        onChange(mergeCustomers(customers, imported));
+        setImportError(null);
+      } catch (err) {
+        setImportError(err instanceof Error ? err.message : 'Could not import accounts.');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-3 text-indigo-500">
+            <Users className="w-4 h-4" />
+            <span className="text-sm font-bold uppercase tracking-wider">Customer Accounts</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input type="file" ref={fileInputRef} onChange={handleImport} accept=".json,application/json" className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-700 rounded-lg text-xs font-bold uppercase tracking-wider hover:border-indigo-300 hover:bg-indigo-50 transition-all"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              <span>Import JSON</span>
+            </button>
+            <button
+              onClick={exportJson}
+              disabled={customers.length === 0}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-700 rounded-lg text-xs font-bold uppercase tracking-wider hover:border-indigo-300 hover:bg-indigo-50 transition-all disabled:opacity-40"
+            >
+              <Download className="w-3.5 h-3.5" />
+              <span>Export JSON</span>
+            </button>
+            <button
+              onClick={addCustomer}
+              className="flex items-center space-x-2 px-3 py-1.5 bg-slate-900 text-white rounded-lg text-xs font-bold uppercase tracking-wider hover:bg-slate-800 transition-all"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              <span>New Account</span>
+            </button>
+          </div>
+        </div>
+
+        {importError && (
+          <p className="mb-4 text-xs font-semibold text-rose-600 bg-rose-50 px-3 py-2 rounded-lg">{importError}</p>
+        )}
+
+        {customers.length === 0 ? (
+          <div className="text-center py-16 border-2 border-dashed border-slate-200 rounded-2xl">
+            <Users className="w-10 h-10 text-slate-300 mx-auto mb-4" />
+            <p className="text-sm text-slate-400 font-medium">No accounts yet. Create one or import a JSON export from another device.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+            <div className="space-y-1">
+              {customers.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => setEditingId(c.id)}
+                  className={`w-full text-left px-4 py-3 rounded-xl transition-all ${
+                    editingId === c.id ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'
+                  }`}
+                >
+                  <p className="text-sm font-bold text-slate-800 flex items-center gap-2">
+                    {c.name}
+                    {activeCustomerId === c.id && <UserCheck className="w-3.5 h-3.5 text-emerald-500" />}
+                  </p>
+                  <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-0.5">
+                    {c.defaultTier} • {c.rules.length} contract rule{c.rules.length === 1 ? '' : 's'}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {editing && (
+              <div className="space-y-6">
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="flex-1 min-w-[200px]">
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Account Name</label>
+                    <input
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => updateCustomer(editing.id, { name: e.target.value })}
+                      className={`${inputClass} w-full`}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Default Tier</label>
+                    <select
+                      value={editing.defaultTier}
+                      onChange={(e) => updateCustomer(editing.id, { defaultTier: e.target.value as PriceTier })}
+                      className={inputClass}
+                    >
+                      {TIERS.map(t => <option key={t} value={t}>{t}</option>)}
+                    </select>
+                  </div>
+                  <button
+                    onClick={() => onActivate(activeCustomerId === editing.id ? null : editing.id)}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-xl text-sm font-semibold transition-all ${
+                      activeCustomerId === editing.id ? 'bg-emerald-50 text-emerald-700 ring-1 ring-emerald-200' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+                    }`}
+                  >
+                    <UserCheck className="w-4 h-4" />
+                    <span>{activeCustomerId === editing.id ? 'Pricing Active' : 'Price for This Account'}</span>
+                  </button>
+                  <button
+                    onClick={() => deleteCustomer(editing)}
+                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+                    title="Delete account"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest">Contract Pricing</h3>
+                    <button
+                      onClick={() => updateCustomer(editing.id, { rules: [...editing.rules, { scope: 'sku', target: '', kind: 'price', value: 0 }] })}
+                      className="flex items-center space-x-1 text-xs font-bold text-indigo-600 hover:text-indigo-800"
+                    >
+                      <Plus className="w-3.5 h-3.5" />
+                      <span>Add Rule</span>
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-400 mb-4">
+                    SKU rules win over family rules; anything not covered is priced at the account's {editing.defaultTier} tier.
+                  </p>
+
+                  {editing.rules.length > 0 && (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                          <th className="py-2 pr-3">Applies To</th>
+                          <th className="py-2 pr-3">SKU / Family</th>
+                          <th className="py-2 pr-3">Rule</th>
+                          <th className="py-2 pr-3">Value</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {editing.rules.map((rule, i) => (
+                          <tr key={i} className="border-b border-slate-50">
+                            <td className="py-2 pr-3">
+                              <select value={rule.scope} onChange={(e) => updateRule(i, { scope: e.target.value as ContractRuleScope })} className={inputClass}>
+                                <option value="sku">SKU</option>
+                                <option value="family">Family</option>
+                              </select>
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="text"
+                                value={rule.target}
+                                list={rule.scope === 'family' ? 'customer-family-options' : undefined}
+                                onChange={(e) => updateRule(i, { target: e.target.value })}
+                                placeholder={rule.scope === 'sku' ? 'e.g. 113295' : 'Product family'}
+                                className={`${inputClass} w-full ${rule.scope === 'sku' ? 'font-mono' : ''}`}
+                              />
+                            </td>
+                            <td className="py-2 pr-3">
+                              <select value={rule.kind} onChange={(e) => updateRule(i, { kind: e.target.value as ContractRuleKind })} className={inputClass}>
+                                <option value="price">Contract price ($)</option>
+                                <option value="percentOff">% off Standard</option>
+                              </select>
+                            </td>
+                            <td className="py-2 pr-3">
+                              <input
+                                type="number"
+                                min={0}
+                                step={rule.kind === 'price' ? 0.01 : 1}
+                                value={rule.value}
+                                onChange={(e) => updateRule(i, { value: parseFloat(e.target.value) || 0 })}
+                                className={`${inputClass} w-28 tabular-nums`}
+                              />
+                            </td>
+                            <td className="py-2 text-right">
+                              <button
+                                onClick={() => updateCustomer(editing.id, { rules: editing.rules.filter((_, idx) => idx !== i) })}
+                                className="p-1 text-slate-300 hover:text-red-600 rounded-md"
+                                title="Remove rule"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <datalist id="customer-family-options">
+                    {families.map(f => <option key={f} value={f} />)}
+                  </datalist>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CustomerPanel;
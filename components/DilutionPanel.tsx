@@ -0,0 +1,235 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Droplets, Upload, Trash2 } from 'lucide-react';
+import { PriceTier, ProductGroup, ProductVariant } from '../types';
+import { formatCurrency, getTierPrice } from '../utils';
+import {
+  DilutionMap, DilutionSetting, findDilution, setSkuDilution, parseDilutionRatio, parseApplicationSize,
+  formatDilution, formatRatio, formatOunces, calculateCostPerUse, importDilutionMap,
+} from '../dilution';
+import { sortByPackSize } from '../packaging';
+import { usePricingVisibility } from '../presentation';
+
+interface DilutionPanelProps {
+  variant: ProductVariant;
+  group: ProductGroup;
+  dilutions: DilutionMap;
+  onChange: (dilutions: DilutionMap) => void;
+}
+
+const DilutionPanel: React.FC<DilutionPanelProps> = ({ variant, group, dilutions, onChange }) => {
+  const { tiers, showInternal } = usePricingVisibility();
+  const [tier, setTier] = useState<PriceTier>(PriceTier.Standard);
+  const [ratioDraft, setRatioDraft] = useState('');
+  const [applicationDraft, setApplicationDraft] = useState('');
+  const [labelDraft, setLabelDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setting = findDilution(dilutions, variant, group);
+  const skuSetting = dilutions.skus[variant.sku.toUpperCase()] || null;
+
+  useEffect(() => {
+    if (!tiers.includes(tier)) setTier(PriceTier.Standard);
+  }, [tiers, tier]);
+
+  // The form edits this SKU's own entry, starting from whatever currently applies to it
+  useEffect(() => {
+    setRatioDraft(setting ? formatRatio(setting.ouncesPerGallon) : '');
+    setApplicationDraft(setting?.applicationOunces ? formatOunces(setting.applicationOunces) : '');
+    setLabelDraft(setting?.applicationLabel || '');
+  }, [variant.sku, setting]);
+
+  const draftRatio = parseDilutionRatio(ratioDraft);
+  const draftApplication = applicationDraft.trim() ? parseApplicationSize(applicationDraft) : null;
+  const draftValid = draftRatio !== null && (!applicationDraft.trim() || draftApplication !== null);
+
+  const save = () => {
+    if (!draftValid || draftRatio === null) return;
+    const next: DilutionSetting = { ouncesPerGallon: draftRatio, applicationOunces: draftApplication, applicationLabel: labelDraft.trim() };
+    onChange(setSkuDilution(dilutions, variant.sku, next));
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const result = importDilutionMap(text, dilutions);
+        onChange(result.map);
+        alert(`Imported ${result.imported} dilution ratio${result.imported === 1 ? '' : 's'}${
+          result.skippedLines.length > 0 ? `; skipped line${result.skippedLines.length === 1 ? '' : 's'} ${result.skippedLines.join(', ')}` : ''}.`);
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'The mapping file could not be read.');
+      }
+    });
+  };
+
+  const cost = setting ? calculateCostPerUse(variant, getTierPrice(variant, tier), setting) : null;
+
+  // Every size in the group at the same tier, so reps can show which pack is cheapest to use
+  const comparison = useMemo(() => sortByPackSize(group.variants).flatMap(v => {
+    const s = findDilution(dilutions, v, group);
+    const c = s ? calculateCostPerUse(v, getTierPrice(v, tier), s) : null;
+    return c && s ? [{ variant: v, setting: s, cost: c }] : [];
+  }), [group, dilutions, tier]);
+  const cheapest = comparison.length > 1
+    ? comparison.reduce((best, row) => (row.cost.perRtuGallon < best.cost.perRtuGallon ? row : best))
+    : null;
+
+  if (!variant.packaging.totalGallons) return null;
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
+          <Droplets className="w-4 h-4 mr-2 text-indigo-500" />
+          Cost Per Use
+        </h3>
+        <div className="flex items-center space-x-2">
+          {tiers.map(t => (
+            <button
+              key={t}
+              onClick={() => setTier(t)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                tier === t ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+          {showInternal && (
+            <>
+              <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".csv,.txt" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                title="Import dilution ratios from a CSV mapping file (SKU or Parent, Dilution, Application, Use)"
+              >
+                <Upload className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {cost && setting ? (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+          {[
+            { label: 'Per RTU Gallon', value: formatCurrency(cost.perRtuGallon), note: `${cost.rtuGallons.toFixed(0)} RTU gal per ${variant.unit}` },
+            { label: 'Per RTU Ounce', value: `${(cost.perRtuOunce * 100).toFixed(2)}¢`, note: formatDilution(setting.ouncesPerGallon) },
+            {
+              label: setting.applicationLabel ? `Per ${setting.applicationLabel}` : 'Per Application',
+              value: cost.perApplication !== null ? formatCurrency(cost.perApplication) : '—',
+              note: setting.applicationOunces ? `${formatOunces(setting.applicationOunces)} of solution` : 'Set an application size',
+            },
+          ].map(stat => (
+            <div key={stat.label} className="bg-indigo-50/50 rounded-2xl p-5 border border-indigo-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1 truncate">{stat.label}</p>
+              <p className="text-2xl font-black text-indigo-600 tabular-nums">{stat.value}</p>
+              <p className="text-[11px] font-semibold text-slate-400 mt-1">{stat.note}</p>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mb-6 text-sm font-medium text-slate-400">
+          No dilution ratio for this product yet. Enter one below to see what a ready-to-use gallon costs.
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="flex-1 min-w-[8rem]">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Dilution</span>
+          <input
+            type="text"
+            value={ratioDraft}
+            onChange={(e) => setRatioDraft(e.target.value)}
+            placeholder="1:64, 2 oz/gal or RTU"
+            className={`mt-1 w-full bg-slate-100 rounded-xl px-3 py-2 text-sm outline-none focus:bg-white focus:ring-2 ${
+              ratioDraft && draftRatio === null ? 'ring-2 ring-rose-300' : 'focus:ring-indigo-500/20'
+            }`}
+          />
+        </label>
+        <label className="w-32">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Application</span>
+          <input
+            type="text"
+            value={applicationDraft}
+            onChange={(e) => setApplicationDraft(e.target.value)}
+            placeholder="32 oz"
+            className={`mt-1 w-full bg-slate-100 rounded-xl px-3 py-2 text-sm outline-none focus:bg-white focus:ring-2 ${
+              applicationDraft.trim() && draftApplication === null ? 'ring-2 ring-rose-300' : 'focus:ring-indigo-500/20'
+            }`}
+          />
+        </label>
+        <label className="w-36">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Used As</span>
+          <input
+            type="text"
+            value={labelDraft}
+            onChange={(e) => setLabelDraft(e.target.value)}
+            placeholder="Spray bottle"
+            className="mt-1 w-full bg-slate-100 rounded-xl px-3 py-2 text-sm outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20"
+          />
+        </label>
+        <button
+          onClick={save}
+          disabled={!draftValid}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-semibold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+        >
+          Save for {variant.sku}
+        </button>
+        {skuSetting && (
+          <button
+            onClick={() => onChange(setSkuDilution(dilutions, variant.sku, null))}
+            className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-all"
+            title="Remove this SKU's ratio"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {comparison.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                <th className="py-3 pr-4">Size</th>
+                <th className="py-3 pr-4">Dilution</th>
+                <th className="py-3 pr-4 text-right">{tier}</th>
+                <th className="py-3 pr-4 text-right">RTU Gal</th>
+                <th className="py-3 pr-4 text-right">Per RTU Gal</th>
+                <th className="py-3 pr-4 text-right">Per Oz</th>
+                <th className="py-3 text-right">Per Application</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(row => (
+                <tr key={row.variant.sku} className={`border-b border-slate-50 ${row.variant.sku === variant.sku ? 'bg-indigo-50/40' : ''}`}>
+                  <td className="py-3 pr-4">
+                    <p className="text-xs font-bold text-slate-700">{row.variant.packaging.label || row.variant.unit}</p>
+                    <p className="text-[11px] font-mono text-slate-400">{row.variant.sku}</p>
+                  </td>
+                  <td className="py-3 pr-4 text-xs text-slate-500">{formatDilution(row.setting.ouncesPerGallon)}</td>
+                  <td className="py-3 pr-4 text-right tabular-nums text-xs text-slate-500">{formatCurrency(getTierPrice(row.variant, tier))}</td>
+                  <td className="py-3 pr-4 text-right tabular-nums text-xs text-slate-500">{row.cost.rtuGallons.toFixed(0)}</td>
+                  <td className={`py-3 pr-4 text-right tabular-nums font-bold ${row === cheapest ? 'text-emerald-600' : 'text-slate-800'}`}>
+                    {formatCurrency(row.cost.perRtuGallon)}
+                    {row === cheapest && <span className="ml-1.5 text-[9px] font-black uppercase tracking-wider">Best</span>}
+                  </td>
+                  <td className="py-3 pr-4 text-right tabular-nums text-xs text-slate-500">{(row.cost.perRtuOunce * 100).toFixed(2)}¢</td>
+                  <td className="py-3 text-right tabular-nums text-xs text-slate-500">
+                    {row.cost.perApplication !== null ? formatCurrency(row.cost.perApplication) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DilutionPanel;
@@ -0,0 +1,132 @@
+
+import React from 'react';
+import { X } from 'lucide-react';
+import { PriceTier } from '../types';
+import { usePricingVisibility } from '../presentation';
+import { CatalogFilters, FacetCounts, FacetKey, createEmptyFilters, countActiveFilters, toggleFacetValue } from '../filters';
+import { UNCLASSIFIED } from '../sections';
+
+interface FilterPanelProps {
+  filters: CatalogFilters;
+  facetCounts: FacetCounts;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+const FACET_SECTIONS: { key: FacetKey; label: string }[] = [
+  { key: 'productLines', label: 'Product Line' },
+  { key: 'families', label: 'Family' },
+  { key: 'units', label: 'Unit of Measure' },
+  { key: 'dotClasses', label: 'DOT / Hazmat' },
+  { key: 'classifications', label: 'Classification' },
+];
+
+// Catalogs without an SCSClass section would only ever show "Unclassified" here
+const isInformative = (values: FacetCounts[FacetKey], selected: string[]) =>
+  selected.length > 0 || values.some(f => f.value !== UNCLASSIFIED);
+
+const parseBound = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const RangeInputs: React.FC<{
+  min: number | null;
+  max: number | null;
+  unit: string;
+  onChange: (min: number | null, max: number | null) => void;
+}> = ({ min, max, unit, onChange }) => (
+  <div className="flex items-center space-x-2">
+    <input
+      type="number"
+      min={0}
+      value={min ?? ''}
+      onChange={(e) => onChange(parseBound(e.target.value), max)}
+      placeholder={`Min ${unit}`}
+      className="w-full bg-slate-100 rounded-lg px-2 py-1.5 text-xs font-semibold tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20"
+    />
+    <span className="text-slate-300">–</span>
+    <input
+      type="number"
+      min={0}
+      value={max ?? ''}
+      onChange={(e) => onChange(min, parseBound(e.target.value))}
+      placeholder={`Max ${unit}`}
+      className="w-full bg-slate-100 rounded-lg px-2 py-1.5 text-xs font-semibold tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20"
+    />
+  </div>
+);
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ filters, facetCounts, onChange }) => {
+  const activeCount = countActiveFilters(filters);
+  const { tiers } = usePricingVisibility();
+
+  return (
+    <div className="mb-4 bg-white rounded-2xl border border-slate-200 p-4 space-y-5 max-h-[55vh] overflow-y-auto custom-scrollbar">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Filters</span>
+        {activeCount > 0 && (
+          <button onClick={() => onChange(createEmptyFilters())} className="flex items-center text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-wider">
+            <X className="w-3 h-3 mr-1" />
+            Clear {activeCount}
+          </button>
+        )}
+      </div>
+
+      {FACET_SECTIONS.filter(section => isInformative(facetCounts[section.key], filters[section.key])).map(section => (
+        <div key={section.key}>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{section.label}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {facetCounts[section.key].map(f => {
+              const selected = filters[section.key].includes(f.value);
+              return (
+                <button
+                  key={f.value}
+                  onClick={() => onChange(toggleFacetValue(filters, section.key, f.value))}
+                  disabled={!selected && f.count === 0}
+                  className={`text-[11px] font-bold px-2 py-1 rounded-lg transition-all disabled:opacity-30 ${
+                    selected ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-indigo-50 hover:text-indigo-700'
+                  }`}
+                >
+                  {f.value}
+                  <span className={`ml-1.5 tabular-nums ${selected ? 'text-indigo-200' : 'text-slate-400'}`}>{f.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Price Range</p>
+          <select
+            value={filters.priceTier}
+            onChange={(e) => onChange({ ...filters, priceTier: e.target.value as PriceTier })}
+            className="bg-slate-100 rounded-md px-1.5 py-0.5 text-[10px] font-bold text-slate-600 outline-none"
+          >
+            {tiers.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+        <RangeInputs
+          min={filters.priceMin}
+          max={filters.priceMax}
+          unit="$"
+          onChange={(priceMin, priceMax) => onChange({ ...filters, priceMin, priceMax })}
+        />
+      </div>
+
+      <div>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Weight Range</p>
+        <RangeInputs
+          min={filters.weightMin}
+          max={filters.weightMax}
+          unit="lbs"
+          onChange={(weightMin, weightMax) => onChange({ ...filters, weightMin, weightMax })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default FilterPanel;
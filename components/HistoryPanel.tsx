@@ -0,0 +1,269 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, GitCompare, ArrowUpRight, ArrowDownRight, RotateCcw, Trash2, Download, Plus, Minus } from 'lucide-react';
+import { CatalogDiff, CatalogVersion } from '../types';
+import { formatCurrency, downloadFile } from '../utils';
+import { CatalogParser } from '../catalogWorker';
+import { listCatalogVersions, deleteCatalogVersion, diffCatalogs, catalogDiffToCSV } from '../history';
+
+interface HistoryPanelProps {
+  // Bumped by the parent whenever a new version is recorded
+  refreshKey: number;
+  parseCatalog: CatalogParser;
+  onRestore: (version: CatalogVersion) => void;
+  onOpenSku: (sku: string) => void;
+}
+
+type DiffTab = 'changed' | 'added' | 'removed';
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatPercent = (value: number | null) => {
+  if (value === null) return 'new';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ refreshKey, parseCatalog, onRestore, onOpenSku }) => {
+  const [versions, setVersions] = useState<CatalogVersion[]>([]);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [tab, setTab] = useState<DiffTab>('changed');
+  const [increasesOnly, setIncreasesOnly] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCatalogVersions()
+      .then(list => {
+        if (cancelled) return;
+        setLoadError(null);
+        setVersions(list);
+        // Default to comparing the latest upload against the one before it
+        setCompareId(list[0]?.id ?? null);
+        setBaseId(list[1]?.id ?? null);
+      })
+      .catch(() => !cancelled && setLoadError('Catalog history is unavailable in this browser.'));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const base = versions.find(v => v.id === baseId) || null;
+  const compare = versions.find(v => v.id === compareId) || null;
+
+  const [diff, setDiff] = useState<CatalogDiff | null>(null);
+  const [diffing, setDiffing] = useState(false);
+
+  // Both uploads are parsed in the catalog worker; large price files would otherwise stall the panel
+  useEffect(() => {
+    setDiff(null);
+    setDiffing(Boolean(base && compare));
+    if (!base || !compare) return;
+    let cancelled = false;
+    Promise.all([parseCatalog(base.csv), parseCatalog(compare.csv)])
+      .then(([before, after]) => { if (!cancelled) setDiff(diffCatalogs(before, after)); })
+      .catch(() => undefined)
+      .finally(() => { if (!cancelled) setDiffing(false); });
+    return () => { cancelled = true; };
+  }, [base, compare, parseCatalog]);
+
+  const changedRows = useMemo(() => {
+    if (!diff) return [];
+    if (!increasesOnly) return diff.changed;
+    return diff.changed.filter(c => c.changes.some(t => t.delta > 0));
+  }, [diff, increasesOnly]);
+
+  const handleDelete = async (version: CatalogVersion) => {
+    if (version.id === undefined) return;
+    if (!confirm(`Delete the ${formatDate(version.uploadedAt)} upload of "${version.fileName}" from history?`)) return;
+    try {
+      await deleteCatalogVersion(version.id);
+      setVersions(prev => prev.filter(v => v.id !== version.id));
+    } catch {
+      setLoadError('This upload could not be deleted from catalog history.');
+    }
+  };
+
+  const exportDiff = () => {
+    if (!diff) return;
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(catalogDiffToCSV(diff), `price-changes-${stamp}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const versionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="bg-slate-100 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20 max-w-xs"
+    >
+      <option value="" disabled>Select upload…</option>
+      {versions.map(v => (
+        <option key={v.id} value={v.id}>{formatDate(v.uploadedAt)} — {v.fileName}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex items-center space-x-3 text-indigo-500 mb-6">
+          <History className="w-4 h-4" />
+          <span className="text-sm font-bold uppercase tracking-wider">Catalog History</span>
+        </div>
+
+        {loadError ? (
+          <p className="text-sm text-amber-600 font-medium">{loadError}</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-slate-400 font-medium">No uploads recorded yet. Each catalog you import will be kept here.</p>
+        ) : (
+          <div className="divide-y divide-slate-50">
+            {versions.map((v, i) => (
+              <div key={v.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-bold text-slate-800">
+                    {v.fileName}
+                    {i === 0 && <span className="ml-2 text-[10px] font-black px-2 py-0.5 rounded-full bg-indigo-600 text-white uppercase tracking-tighter">Latest</span>}
+                  </p>
+                  <p className="text-xs text-slate-400 font-medium">{formatDate(v.uploadedAt)} • {v.productCount} products • {v.skuCount} SKUs</p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button onClick={() => onRestore(v)} className="flex items-center space-x-1.5 px-3 py-1.5 text-xs font-bold text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all" title="Load this version as the active catalog">
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    <span>Restore</span>
+                  </button>
+                  <button onClick={() => handleDelete(v)} className="p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all" title="Delete from history">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest flex items-center">
+              <GitCompare className="w-4 h-4 mr-2 text-indigo-500" />
+              Price Changes
+            </h3>
+            <div className="flex flex-wrap items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <span>From</span>
+              {versionSelect(baseId, setBaseId)}
+              <span>To</span>
+              {versionSelect(compareId, setCompareId)}
+            </div>
+          </div>
+
+          {diffing && <p className="text-sm text-slate-400 font-medium">Comparing uploads…</p>}
+
+          {diff && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center space-x-2">
+                  {([
+                    { key: 'changed', label: `Price Changes (${diff.changed.length})` },
+                    { key: 'added', label: `New SKUs (${diff.added.length})` },
+                    { key: 'removed', label: `Discontinued (${diff.removed.length})` },
+                  ] as { key: DiffTab; label: string }[]).map(t => (
+                    <button
+                      key={t.key}
+                      onClick={() => setTab(t.key)}
+                      className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                        tab === t.key ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                      }`}
+                    >
+                      {t.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-3">
+                  {tab === 'changed' && (
+                    <label className="flex items-center space-x-2 text-xs font-semibold text-slate-500 cursor-pointer">
+                      <input type="checkbox" checked={increasesOnly} onChange={(e) => setIncreasesOnly(e.target.checked)} className="accent-indigo-600" />
+                      <span>Increases only</span>
+                    </label>
+                  )}
+                  <button onClick={exportDiff} className="flex items-center space-x-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-700 rounded-lg text-xs font-semibold hover:border-indigo-300 hover:bg-indigo-50 transition-all">
+                    <Download className="w-3.5 h-3.5" />
+                    <span>Export CSV</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                {tab === 'changed' ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                        <th className="py-3 pr-4">SKU</th>
+                        <th className="py-3 pr-4">Description</th>
+                        <th className="py-3 pr-4">Tier</th>
+                        <th className="py-3 pr-4 text-right">Old</th>
+                        <th className="py-3 pr-4 text-right">New</th>
+                        <th className="py-3 pr-4 text-right">Change</th>
+                        <th className="py-3 text-right">%</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changedRows.map(c => c.changes.map((t, i) => (
+                        <tr key={`${c.after.sku}-${t.tier}`} className={`${i === c.changes.length - 1 ? 'border-b border-slate-100' : ''} hover:bg-slate-50/50`}>
+                          <td className="py-2 pr-4 font-mono font-bold text-slate-700">
+                            {i === 0 && <button onClick={() => onOpenSku(c.after.sku)} className="hover:text-indigo-600">{c.after.sku}</button>}
+                          </td>
+                          <td className="py-2 pr-4 text-slate-600">{i === 0 && <>{c.after.description} <span className="text-slate-400 text-xs">• {c.after.unit}</span></>}</td>
+                          <td className="py-2 pr-4 text-xs font-bold text-slate-500">{t.tier}</td>
+                          <td className="py-2 pr-4 text-right tabular-nums text-slate-400">{formatCurrency(t.from)}</td>
+                          <td className="py-2 pr-4 text-right tabular-nums font-bold">{formatCurrency(t.to)}</td>
+                          <td className={`py-2 pr-4 text-right tabular-nums font-semibold ${t.delta > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                            <span className="inline-flex items-center">
+                              {t.delta > 0 ? <ArrowUpRight className="w-3.5 h-3.5 mr-1" /> : <ArrowDownRight className="w-3.5 h-3.5 mr-1" />}
+                              {formatCurrency(Math.abs(t.delta))}
+                            </span>
+                          </td>
+                          <td className={`py-2 text-right tabular-nums text-xs font-bold ${t.delta > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>{formatPercent(t.percent)}</td>
+                        </tr>
+                      )))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                        <th className="py-3 pr-4">SKU</th>
+                        <th className="py-3 pr-4">Description</th>
+                        <th className="py-3 pr-4">Family</th>
+                        <th className="py-3 text-right">Standard</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(tab === 'added' ? diff.added : diff.removed).map(v => (
+                        <tr key={v.sku} className="border-b border-slate-50 hover:bg-slate-50/50">
+                          <td className="py-2 pr-4 font-mono font-bold text-slate-700">
+                            <span className="inline-flex items-center">
+                              {tab === 'added'
+                                ? <Plus className="w-3.5 h-3.5 mr-1.5 text-emerald-500" />
+                                : <Minus className="w-3.5 h-3.5 mr-1.5 text-rose-500" />}
+                              {tab === 'added'
+                                ? <button onClick={() => onOpenSku(v.sku)} className="hover:text-indigo-600">{v.sku}</button>
+                                : v.sku}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4 text-slate-600">{v.description} <span className="text-slate-400 text-xs">• {v.unit}</span></td>
+                          <td className="py-2 pr-4 text-xs text-slate-500">{v.family}</td>
+                          <td className="py-2 text-right tabular-nums font-bold">{formatCurrency(v.stdPrice)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,141 @@
+
+import React, { useMemo, useState } from 'react';
+import { ClipboardCheck, AlertCircle, TriangleAlert, CheckCircle2, Table2, X } from 'lucide-react';
+import { ImportIssueSeverity, ImportResult } from '../types';
+import { CLASSIFICATION_SECTION } from '../sections';
+
+interface ImportReviewDialogProps {
+  fileName: string;
+  result: ImportResult;
+  currentProductCount: number;
+  currentSkuCount: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ImportReviewDialog: React.FC<ImportReviewDialogProps> = ({ fileName, result, currentProductCount, currentSkuCount, onConfirm, onCancel }) => {
+  const [severityFilter, setSeverityFilter] = useState<ImportIssueSeverity | 'all'>('all');
+
+  const errorCount = result.issues.filter(i => i.severity === 'error').length;
+  const warningCount = result.issues.length - errorCount;
+  const visibleIssues = useMemo(
+    () => result.issues.filter(i => severityFilter === 'all' || i.severity === severityFilter),
+    [result.issues, severityFilter]
+  );
+  const canImport = result.groups.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col border border-slate-200">
+        <div className="p-8 pb-4 flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-3 text-indigo-500 mb-2">
+              <ClipboardCheck className="w-4 h-4" />
+              <span className="text-sm font-bold uppercase tracking-wider">Review Import</span>
+            </div>
+            <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">{fileName}</h2>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-all" title="Cancel import">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-8 grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            { label: 'Products', value: result.groups.length, previous: currentProductCount, color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+            { label: 'SKUs Imported', value: result.skuCount, previous: currentSkuCount, color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+            { label: 'Errors (skipped)', value: errorCount, color: 'text-rose-600', bg: 'bg-rose-50/50' },
+            { label: 'Warnings', value: warningCount, color: 'text-amber-600', bg: 'bg-amber-50/50' },
+          ].map(stat => (
+            <div key={stat.label} className={`${stat.bg} rounded-2xl p-4 border border-white`}>
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{stat.label}</p>
+              <p className={`text-2xl font-black tabular-nums ${stat.color}`}>{stat.value}</p>
+              {stat.previous !== undefined && (
+                <p className="text-[10px] font-semibold text-slate-400 mt-1">Currently {stat.previous}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {result.sections.map(section => (
+          <p key={section.lineNumber} className="px-8 pt-4 flex items-center text-xs font-semibold text-slate-500">
+            <Table2 className="w-3.5 h-3.5 mr-1.5 text-indigo-500" />
+            {section.label} table found at line {section.lineNumber}: {section.rows.length} rows
+            {section.key === CLASSIFICATION_SECTION && <>, {result.classifiedSkuCount} of {result.skuCount} SKUs classified</>}.
+          </p>
+        ))}
+
+        <div className="px-8 pt-6 pb-2 flex items-center space-x-2">
+          {(['all', 'error', 'warning'] as const).map(f => (
+            <button
+              key={f}
+              onClick={() => setSeverityFilter(f)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                severityFilter === f ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+              }`}
+            >
+              {f === 'all' ? `All (${result.issues.length})` : f === 'error' ? `Errors (${errorCount})` : `Warnings (${warningCount})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-8 min-h-[120px]">
+          {visibleIssues.length === 0 ? (
+            <div className="flex items-center justify-center py-10 text-sm font-medium text-emerald-600">
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              No issues found.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-3 pr-4">Line</th>
+                  <th className="py-3 pr-4">SKU</th>
+                  <th className="py-3">Issue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleIssues.map((issue, i) => (
+                  <tr key={i} className="border-b border-slate-50">
+                    <td className="py-2 pr-4 font-mono text-xs text-slate-400 tabular-nums">
+                      {issue.endLineNumber ? `${issue.lineNumber}–${issue.endLineNumber}` : issue.lineNumber}
+                    </td>
+                    <td className="py-2 pr-4 font-mono text-xs font-bold text-slate-700">{issue.sku || '—'}</td>
+                    <td className={`py-2 text-xs font-medium flex items-center ${issue.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                      {issue.severity === 'error'
+                        ? <AlertCircle className="w-3.5 h-3.5 mr-2 shrink-0" />
+                        : <TriangleAlert className="w-3.5 h-3.5 mr-2 shrink-0" />}
+                      {issue.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-8 pt-4 flex items-center justify-between gap-4 border-t border-slate-100">
+          <span className="text-xs font-medium text-slate-500">
+            {canImport
+              ? 'Rows with errors will be left out. Warnings are imported as-is.'
+              : 'Nothing could be imported from this file. Your current catalog is unchanged.'}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={onConfirm}
+              disabled={!canImport}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-semibold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+            >
+              Replace Catalog
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReviewDialog;
@@ -0,0 +1,233 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardList, Copy, CheckCircle2, ShoppingCart, Trash2, AlertCircle, Archive } from 'lucide-react';
+import { PriceTier, ProductVariant } from '../types';
+import { formatCurrency, getTierPrice } from '../utils';
+import { findRetiredSkus } from '../history';
+import { RetiredSku, parseSkuList, buildSkuKeyIndex, resolveSkuList, calculateLookupTotals, lookupToTSV } from '../lookup';
+import { usePricingVisibility } from '../presentation';
+import { CatalogParser } from '../catalogWorker';
+
+interface LookupPanelProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  variants: Map<string, ProductVariant>;
+  onOpenSku: (sku: string) => void;
+  onAddToQuote: (lines: { sku: string; quantity: number }[]) => void;
+  parseCatalog: CatalogParser;
+}
+
+const PLACEHOLDER = `124442
+124315, 6
+18041\t4`;
+
+// Swaps the SKU on one pasted line for a suggestion, leaving the quantity and anything else untouched
+const replaceSkuOnLine = (text: string, lineNumber: number, from: string, to: string) => {
+  const lines = text.split(/\r?\n/);
+  const idx = lineNumber - 1;
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  lines[idx] = lines[idx].replace(new RegExp(escaped, 'i'), to);
+  return lines.join('\n');
+};
+
+const LookupPanel: React.FC<LookupPanelProps> = ({ text, onTextChange, variants, onOpenSku, onAddToQuote, parseCatalog }) => {
+  const { tiers } = usePricingVisibility();
+  const [extendedTier, setExtendedTier] = useState<PriceTier>(PriceTier.Standard);
+  const [retiredSkus, setRetiredSkus] = useState<Map<string, RetiredSku>>(new Map());
+  const [copied, setCopied] = useState(false);
+
+  const entries = useMemo(() => parseSkuList(text), [text]);
+  const keyIndex = useMemo(() => buildSkuKeyIndex(variants), [variants]);
+  const rows = useMemo(
+    () => resolveSkuList(entries, variants, keyIndex, retiredSkus),
+    [entries, variants, keyIndex, retiredSkus]
+  );
+  const totals = useMemo(() => calculateLookupTotals(rows, extendedTier), [rows, extendedTier]);
+
+  // Catalog history is only read once something doesn't resolve, to tell discontinued from mistyped
+  const hasMissing = totals.missing > 0;
+  useEffect(() => {
+    if (!hasMissing) return;
+    let cancelled = false;
+    findRetiredSkus(variants, parseCatalog)
+      .then(retired => { if (!cancelled) setRetiredSkus(retired); })
+      .catch(() => undefined);
+    return () => { cancelled = true; };
+  }, [hasMissing, variants, parseCatalog]);
+
+  useEffect(() => {
+    if (!tiers.includes(extendedTier)) setExtendedTier(PriceTier.Standard);
+  }, [tiers, extendedTier]);
+
+  const copyTSV = () => {
+    navigator.clipboard.writeText(lookupToTSV(rows, tiers, extendedTier));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const addFound = () =>
+    onAddToQuote(rows.flatMap(r => (r.variant ? [{ sku: r.variant.sku, quantity: r.entry.quantity }] : [])));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center space-x-3 text-indigo-500">
+            <ClipboardList className="w-4 h-4" />
+            <span className="text-sm font-bold uppercase tracking-wider">Bulk SKU Lookup</span>
+          </div>
+          {text && (
+            <button
+              onClick={() => onTextChange('')}
+              className="flex items-center space-x-1.5 text-xs font-bold text-slate-400 hover:text-red-600 transition-all"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              <span>Clear</span>
+            </button>
+          )}
+        </div>
+        <textarea
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={8}
+          spellCheck={false}
+          className="w-full bg-slate-100 rounded-2xl px-4 py-3 text-sm font-mono outline-none focus:bg-white focus:ring-2 focus:ring-indigo-500/20 transition-all custom-scrollbar"
+        />
+        <p className="mt-2 text-xs font-medium text-slate-400">
+          One SKU per line, optionally followed by a quantity (“124315, 6” or “124315 6”), or paste rows straight from Excel.
+        </p>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Lines', value: rows.length.toString(), color: 'text-slate-700', bg: 'bg-white' },
+              { label: 'Not Found', value: totals.missing.toString(), color: totals.missing > 0 ? 'text-rose-600' : 'text-emerald-600', bg: totals.missing > 0 ? 'bg-rose-50/50' : 'bg-emerald-50/50' },
+              { label: `Extended (${extendedTier})`, value: formatCurrency(totals.extended), color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+              { label: 'Total Weight', value: `${totals.weight.toFixed(1)} lbs`, color: 'text-slate-700', bg: 'bg-white' },
+            ].map(stat => (
+              <div key={stat.label} className={`${stat.bg} rounded-2xl p-5 border border-slate-200`}>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{stat.label}</p>
+                <p className={`text-xl font-black tabular-nums ${stat.color}`}>{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+              <div className="flex items-center space-x-2">
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Extend At</label>
+                {tiers.map(tier => (
+                  <button
+                    key={tier}
+                    onClick={() => setExtendedTier(tier)}
+                    className={`px-3 py-1.5 rounded-lg text-xs font-bold uppercase tracking-wider transition-all ${
+                      extendedTier === tier ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'
+                    }`}
+                  >
+                    {tier}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={copyTSV}
+                  className="flex items-center space-x-1.5 px-3 py-2 bg-slate-100 text-slate-700 rounded-lg text-xs font-bold hover:bg-slate-200 transition-all active:scale-95"
+                  title="Copy as tab-separated text for Excel or email"
+                >
+                  {copied ? <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" /> : <Copy className="w-3.5 h-3.5" />}
+                  <span>{copied ? 'Copied' : 'Copy TSV'}</span>
+                </button>
+                <button
+                  onClick={addFound}
+                  disabled={totals.found === 0}
+                  className="flex items-center space-x-1.5 px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-bold hover:bg-indigo-700 transition-all active:scale-95 disabled:opacity-40"
+                >
+                  <ShoppingCart className="w-3.5 h-3.5" />
+                  <span>Add {totals.found} to Quote</span>
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                    <th className="py-3 pr-4">SKU</th>
+                    <th className="py-3 pr-4">Description</th>
+                    <th className="py-3 pr-4">Unit</th>
+                    <th className="py-3 pr-4 text-right">Qty</th>
+                    {tiers.map(tier => <th key={tier} className="py-3 pr-4 text-right">{tier}</th>)}
+                    <th className="py-3 pr-4 text-right">Extended</th>
+                    <th className="py-3 text-right">Weight</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const { entry, variant } = row;
+                    if (!variant) {
+                      return (
+                        <tr key={entry.lineNumber} className="border-b border-slate-50 bg-rose-50/30">
+                          <td className="py-3 pr-4 font-mono text-xs font-bold text-rose-600 align-top">{entry.sku}</td>
+                          <td className="py-3 pr-4" colSpan={tiers.length + 5}>
+                            <p className="flex items-center text-xs font-semibold text-rose-600">
+                              {row.status === 'discontinued' ? <Archive className="w-3.5 h-3.5 mr-1.5" /> : <AlertCircle className="w-3.5 h-3.5 mr-1.5" />}
+                              {row.status === 'discontinued' && row.retired
+                                ? `Discontinued: ${row.retired.description}, last in ${row.retired.lastSeenIn} (${new Date(row.retired.lastSeenAt).toLocaleDateString()})`
+                                : `Not in the catalog (line ${entry.lineNumber})`}
+                            </p>
+                            {row.suggestions.length > 0 && (
+                              <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Did you mean</span>
+                                {row.suggestions.map(s => (
+                                  <button
+                                    key={s.sku}
+                                    onClick={() => onTextChange(replaceSkuOnLine(text, entry.lineNumber, entry.sku, s.sku))}
+                                    className="text-[11px] font-bold px-2 py-1 rounded-lg bg-white border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-700 transition-all"
+                                    title={`Use ${s.sku} on this line`}
+                                  >
+                                    <span className="font-mono">{s.sku}</span>
+                                    <span className="ml-1.5 font-medium text-slate-400">{s.description}</span>
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    }
+                    return (
+                      <tr key={entry.lineNumber} className="border-b border-slate-50">
+                        <td className="py-3 pr-4">
+                          <button onClick={() => onOpenSku(variant.sku)} className="font-mono text-xs font-bold text-slate-700 hover:text-indigo-600">
+                            {variant.sku}
+                          </button>
+                        </td>
+                        <td className="py-3 pr-4 text-xs font-medium text-slate-600">{variant.description}</td>
+                        <td className="py-3 pr-4 text-xs font-bold text-slate-500">{variant.unit}</td>
+                        <td className="py-3 pr-4 text-right tabular-nums font-bold">{entry.quantity}</td>
+                        {tiers.map(tier => (
+                          <td key={tier} className={`py-3 pr-4 text-right tabular-nums text-xs ${tier === extendedTier ? 'font-bold text-slate-900' : 'text-slate-500'}`}>
+                            {formatCurrency(getTierPrice(variant, tier))}
+                          </td>
+                        ))}
+                        <td className="py-3 pr-4 text-right tabular-nums font-bold text-indigo-600">
+                          {formatCurrency(getTierPrice(variant, extendedTier) * entry.quantity)}
+                        </td>
+                        <td className="py-3 text-right tabular-nums text-xs text-slate-500">{(variant.weight * entry.quantity).toFixed(1)} lbs</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LookupPanel;
@@ -0,0 +1,106 @@
+
+import React, { useState } from 'react';
+import { Presentation, Lock, X } from 'lucide-react';
+import { isValidPin } from '../presentation';
+
+interface PresentationDialogProps {
+  mode: 'start' | 'stop';
+  // No PIN stored yet: the one typed now becomes the PIN
+  isNewPin: boolean;
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+const PresentationDialog: React.FC<PresentationDialogProps> = ({ mode, isNewPin, onSubmit, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const choosingPin = mode === 'start' && isNewPin;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError('PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (choosingPin && pin !== confirmPin) {
+      setError('PINs do not match.');
+      return;
+    }
+    setBusy(true);
+    try {
+      if (!(await onSubmit(pin))) {
+        setError('Incorrect PIN.');
+        setPin('');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The PIN could not be checked.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pinInputClass = 'w-full bg-slate-100 rounded-xl px-4 py-3 text-2xl font-black tracking-[0.5em] text-center tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <form onSubmit={submit} className="bg-white rounded-3xl shadow-2xl w-full max-w-sm border border-slate-200 p-8">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <div className="flex items-center space-x-3 text-indigo-500 mb-2">
+              {mode === 'start' ? <Presentation className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+              <span className="text-sm font-bold uppercase tracking-wider">Presentation Mode</span>
+            </div>
+            <p className="text-sm text-slate-500">
+              {choosingPin
+                ? 'Choose a PIN. Floor and Give prices stay hidden until it is entered again.'
+                : mode === 'start'
+                  ? 'Enter your PIN to hide Floor and Give prices.'
+                  : 'Enter your PIN to show internal pricing.'}
+            </p>
+          </div>
+          <button type="button" onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-all" title="Cancel">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={(e) => { setPin(e.target.value.replace(/\D/g, '')); setError(null); }}
+            placeholder="PIN"
+            maxLength={8}
+            className={pinInputClass}
+          />
+          {choosingPin && (
+            <input
+              type="password"
+              inputMode="numeric"
+              value={confirmPin}
+              onChange={(e) => { setConfirmPin(e.target.value.replace(/\D/g, '')); setError(null); }}
+              placeholder="Confirm"
+              maxLength={8}
+              className={pinInputClass}
+            />
+          )}
+          {error && <p className="text-xs font-semibold text-rose-600 text-center">{error}</p>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={busy}
+          className="mt-6 w-full px-4 py-3 bg-slate-900 text-white rounded-xl text-sm font-semibold hover:bg-slate-800 transition-all active:scale-95 disabled:opacity-40"
+        >
+          {mode === 'start' ? 'Start Presenting' : 'Exit Presentation Mode'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PresentationDialog;
@@ -0,0 +1,259 @@
+
+import React, { useMemo } from 'react';
+import { FileText, Printer, Download, Trash2, ShoppingCart, AlertCircle, Puzzle, Plus } from 'lucide-react';
+import { ProductVariant, PriceTier, Quote, CustomerAccount } from '../types';
+import { formatCurrency, downloadFile } from '../utils';
+import { calculateQuote, getVisibleQuoteTier, addQuoteLine, updateQuoteLine, removeQuoteLine, createEmptyQuote, quoteToCSV, printQuote } from '../quote';
+import { usePricingVisibility, isTierVisible } from '../presentation';
+import { MissingAccessory } from '../accessories';
+import { FreightRateTable, ShipmentLine } from '../shipping';
+import ShippingEstimator from './ShippingEstimator';
+
+interface QuotePanelProps {
+  quote: Quote;
+  variants: Map<string, ProductVariant>;
+  onChange: (quote: Quote) => void;
+  onOpenSku: (sku: string) => void;
+  customer: CustomerAccount | null;
+  missingAccessories: MissingAccessory[];
+  freightRates: FreightRateTable;
+  onFreightRatesChange: (rates: FreightRateTable) => void;
+}
+
+const TIERS = Object.values(PriceTier);
+
+const QuotePanel: React.FC<QuotePanelProps> = ({
+  quote, variants, onChange, onOpenSku, customer, missingAccessories, freightRates, onFreightRatesChange,
+}) => {
+  const visibility = usePricingVisibility();
+  const totals = useMemo(() => calculateQuote(quote, variants, customer, visibility), [quote, variants, customer, visibility]);
+  const shipmentLines = useMemo(
+    () => totals.lines.flatMap((l): ShipmentLine[] => (l.variant ? [{ variant: l.variant, quantity: l.line.quantity }] : [])),
+    [totals]
+  );
+
+  const exportCsv = () => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadFile(quoteToCSV(quote, totals, visibility), `quote-${stamp}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const clearQuote = () => {
+    if (confirm("Remove all lines from this quote?")) {
+      onChange(createEmptyQuote());
+    }
+  };
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <div>
+            <div className="flex items-center space-x-3 text-indigo-500 mb-2">
+              <ShoppingCart className="w-4 h-4" />
+              <span className="text-sm font-bold uppercase tracking-wider">Quote Builder</span>
+            </div>
+            <input
+              type="text"
+              value={quote.customerName}
+              onChange={(e) => onChange({ ...quote, customerName: e.target.value, updatedAt: new Date().toISOString() })}
+              placeholder="Customer name"
+              className="text-2xl font-extrabold text-slate-900 tracking-tight bg-transparent outline-none border-b-2 border-transparent focus:border-indigo-200 placeholder:text-slate-300"
+            />
+          </div>
+          {customer ? (
+            <div className="flex items-center space-x-2 bg-indigo-50 px-3 py-2 rounded-xl">
+              <span className="text-[10px] font-black text-indigo-400 uppercase tracking-widest">Account Pricing</span>
+              <span className="text-sm font-bold text-indigo-700">{customer.name}</span>
+            </div>
+          ) : !visibility.showInternal ? (
+            <div className="flex items-center space-x-2 bg-slate-100 px-3 py-2 rounded-xl">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Pricing</span>
+              <span className="text-sm font-bold text-slate-700">{getVisibleQuoteTier(quote, visibility)}</span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Quote Tier</label>
+              <select
+                value={quote.tier}
+                onChange={(e) => onChange({ ...quote, tier: e.target.value as PriceTier, updatedAt: new Date().toISOString() })}
+                className="bg-slate-100 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20"
+              >
+                {TIERS.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {quote.lines.length === 0 ? (
+          <div className="text-center py-16 border-2 border-dashed border-slate-200 rounded-2xl">
+            <FileText className="w-10 h-10 text-slate-300 mx-auto mb-4" />
+            <p className="text-sm text-slate-400 font-medium">No items yet. Use "Add to Quote" on any variant's pricing matrix.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left border-b border-slate-100">
+                  <th className="py-3 pr-4">SKU</th>
+                  <th className="py-3 pr-4">Description</th>
+                  <th className="py-3 pr-4">Qty</th>
+                  <th className="py-3 pr-4">Tier</th>
+                  <th className="py-3 pr-4 text-right">Unit</th>
+                  <th className="py-3 pr-4 text-right">Extended</th>
+                  {visibility.showInternal && <th className="py-3 pr-4 text-right">Margin</th>}
+                  <th className="py-3 text-right">Weight</th>
+                  <th className="py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {totals.lines.map((l, i) => (
+                  <tr key={`${l.line.sku}-${i}`} className="border-b border-slate-50 hover:bg-slate-50/50">
+                    <td className="py-3 pr-4 font-mono font-bold text-slate-700">
+                      <button onClick={() => onOpenSku(l.line.sku)} className="hover:text-indigo-600">{l.line.sku}</button>
+                    </td>
+                    <td className="py-3 pr-4 text-slate-600">
+                      {l.variant ? (
+                        <span>{l.variant.description} <span className="text-slate-400 text-xs">• {l.variant.unit}</span></span>
+                      ) : (
+                        <span className="flex items-center text-amber-600 text-xs font-semibold">
+                          <AlertCircle className="w-3.5 h-3.5 mr-1" /> Not in current catalog
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="number"
+                        min={1}
+                        value={l.line.quantity}
+                        onChange={(e) => onChange(updateQuoteLine(quote, i, { quantity: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                        className="w-20 bg-slate-100 rounded-lg px-2 py-1 font-bold tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      />
+                    </td>
+                    <td className="py-3 pr-4">
+                      {!visibility.showInternal ? (
+                        <span className="text-xs font-bold text-slate-500">
+                          {l.customerPrice && l.customerPrice.source !== 'tier' ? 'Contract' : isTierVisible(visibility, l.tier) ? l.tier : 'Quoted'}
+                        </span>
+                      ) : (
+                        <select
+                          value={l.line.tier || ''}
+                          onChange={(e) => onChange(updateQuoteLine(quote, i, { tier: (e.target.value || undefined) as PriceTier | undefined }))}
+                          className="bg-slate-100 rounded-lg px-2 py-1 text-xs font-bold text-slate-600 outline-none"
+                        >
+                          <option value="">{customer ? 'Account' : `Quote (${quote.tier})`}</option>
+                          {TIERS.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-right tabular-nums">
+                      {formatCurrency(l.unitPrice)}
+                      {visibility.showInternal && l.customerPrice?.belowFloor && (
+                        <span className="block text-[9px] font-black text-rose-600 uppercase tracking-wider">Below Floor</span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-4 text-right tabular-nums font-bold">{formatCurrency(l.extended)}</td>
+                    {visibility.showInternal && (
+                      <td className={`py-3 pr-4 text-right tabular-nums font-semibold ${l.margin < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                        {formatCurrency(l.margin)}
+                      </td>
+                    )}
+                    <td className="py-3 text-right tabular-nums text-slate-500">{l.weight.toFixed(1)} lbs</td>
+                    <td className="py-3 pl-2 text-right">
+                      <button onClick={() => onChange(removeQuoteLine(quote, i))} className="p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all" title="Remove line">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {missingAccessories.length > 0 && (
+          <div className="mt-6 bg-amber-50 border border-amber-100 rounded-2xl p-4">
+            <p className="flex items-center text-xs font-black text-amber-700 uppercase tracking-widest mb-3">
+              <Puzzle className="w-4 h-4 mr-2" />
+              Missing Required Accessories
+            </p>
+            <div className="space-y-2">
+              {missingAccessories.map(m => {
+                const option = variants.get(m.options[0]);
+                return (
+                  <div key={`${m.sku}-${m.code}`} className="flex flex-wrap items-center justify-between gap-3 text-sm">
+                    <span className="text-amber-800">
+                      <span className="font-mono font-bold">{m.sku}</span> needs {m.label || <span className="font-mono font-bold">{m.code}</span>}
+                      {option && <span className="text-amber-600"> — {option.description}</span>}
+                    </span>
+                    {option && (
+                      <button
+                        onClick={() => onChange(addQuoteLine(quote, option.sku, 1))}
+                        className="flex items-center space-x-1 px-2.5 py-1 bg-white text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 transition-all"
+                      >
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>Add {option.sku}</span>
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: 'Quote Total', value: formatCurrency(totals.subtotal), color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+          { label: 'Floor Total', value: formatCurrency(totals.floorTotal), color: 'text-amber-600', bg: 'bg-amber-50/50', internal: true },
+          { label: 'Margin vs Floor', value: `${formatCurrency(totals.margin)} (${totals.marginPercent.toFixed(1)}%)`, color: totals.margin < 0 ? 'text-rose-600' : 'text-emerald-600', bg: 'bg-emerald-50/50', internal: true },
+          { label: 'Shipping Wt.', value: `${totals.totalWeight.toFixed(1)} lbs`, color: 'text-slate-700', bg: 'bg-slate-100/50' },
+        ].filter(stat => visibility.showInternal || !stat.internal).map(stat => (
+          <div key={stat.label} className={`${stat.bg} rounded-2xl p-5 border border-white`}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{stat.label}</p>
+            <p className={`text-xl font-black tabular-nums ${stat.color}`}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {quote.lines.length > 0 && (
+        <ShippingEstimator lines={shipmentLines} rates={freightRates} onRatesChange={onFreightRatesChange} />
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => printQuote(quote, totals)}
+          disabled={quote.lines.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-semibold hover:bg-slate-800 transition-all active:scale-95 disabled:opacity-40"
+        >
+          <Printer className="w-4 h-4" />
+          <span>Print / PDF</span>
+        </button>
+        <button
+          onClick={exportCsv}
+          disabled={quote.lines.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 bg-white border border-slate-200 text-slate-700 rounded-xl text-sm font-semibold hover:border-indigo-300 hover:bg-indigo-50 transition-all active:scale-95 disabled:opacity-40"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+        <button
+          onClick={clearQuote}
+          disabled={quote.lines.length === 0}
+          className="flex items-center space-x-2 px-4 py-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl text-sm font-semibold transition-all disabled:opacity-40"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Clear Quote</span>
+        </button>
+        {totals.missingSkus.length > 0 && (
+          <span className="flex items-center text-amber-600 bg-amber-50 px-3 py-2 rounded-lg text-xs font-medium">
+            <AlertCircle className="w-4 h-4 mr-2" />
+            {totals.missingSkus.length} SKU(s) not found in the loaded catalog
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuotePanel;
@@ -0,0 +1,91 @@
+
+import React, { useState } from 'react';
+import { FileSpreadsheet, Table2, X } from 'lucide-react';
+import { COLUMN_DEFINITIONS } from '../columns';
+import { SheetSummary } from '../xlsx';
+
+interface SheetPickerDialogProps {
+  fileName: string;
+  sheets: SheetSummary[];
+  initialIndex: number;
+  onConfirm: (sheetIndex: number) => void;
+  onCancel: () => void;
+}
+
+const REQUIRED_COLUMN_COUNT = COLUMN_DEFINITIONS.filter(d => d.required).length;
+
+const SheetPickerDialog: React.FC<SheetPickerDialogProps> = ({ fileName, sheets, initialIndex, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState(initialIndex);
+  const sectionSheets = sheets.filter(s => s.sectionLabel);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col border border-slate-200">
+        <div className="p-8 pb-4 flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-3 text-indigo-500 mb-2">
+              <FileSpreadsheet className="w-4 h-4" />
+              <span className="text-sm font-bold uppercase tracking-wider">Choose Sheet</span>
+            </div>
+            <h2 className="text-2xl font-extrabold text-slate-900 tracking-tight">{fileName}</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              This workbook has several sheets. Pick the one holding the pricing report.
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-xl transition-all" title="Cancel import">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-8 space-y-2">
+          {sheets.map(sheet => (
+            <button
+              key={sheet.index}
+              onClick={() => setSelected(sheet.index)}
+              disabled={!!sheet.sectionLabel || sheet.rowCount === 0}
+              className={`w-full text-left p-4 rounded-2xl border transition-all disabled:opacity-50 ${
+                selected === sheet.index ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm font-bold text-slate-800 truncate">{sheet.name}</span>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest shrink-0">
+                  {sheet.sectionLabel
+                    ? `${sheet.sectionLabel} table`
+                    : `${sheet.rowCount} rows • ${sheet.matchedColumns}/${REQUIRED_COLUMN_COUNT} columns`}
+                </span>
+              </div>
+              {sheet.header.length > 0 && (
+                <p className="text-xs text-slate-400 font-mono truncate mt-1">{sheet.header.filter(Boolean).join(', ')}</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-8 pt-4 flex items-center justify-between gap-4 border-t border-slate-100">
+          <span className="text-xs font-medium text-slate-500 flex items-center">
+            {sectionSheets.length > 0 && (
+              <>
+                <Table2 className="w-3.5 h-3.5 mr-1.5 shrink-0" />
+                {sectionSheets.map(s => `${s.sectionLabel} (“${s.name}”)`).join(', ')} imported alongside.
+              </>
+            )}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button onClick={onCancel} className="px-4 py-2 text-slate-500 hover:bg-slate-100 rounded-xl text-sm font-semibold transition-all">
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(selected)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-xl text-sm font-semibold hover:bg-indigo-700 transition-all active:scale-95"
+            >
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPickerDialog;
@@ -0,0 +1,204 @@
+
+import React, { useMemo, useState } from 'react';
+import { Truck, TriangleAlert, Settings2, RotateCcw, Plus, Minus, AlertCircle } from 'lucide-react';
+import { formatCurrency } from '../utils';
+import { FreightRateTable, ShipmentLine, DEFAULT_FREIGHT_RATES, estimateShipment } from '../shipping';
+import { usePricingVisibility } from '../presentation';
+
+interface ShippingEstimatorProps {
+  lines: ShipmentLine[];
+  rates: FreightRateTable;
+  onRatesChange: (rates: FreightRateTable) => void;
+}
+
+const cellInput = 'w-full bg-slate-100 rounded-lg px-2 py-1 text-xs font-semibold tabular-nums outline-none focus:ring-2 focus:ring-indigo-500/20';
+
+const parseAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+const ShippingEstimator: React.FC<ShippingEstimatorProps> = ({ lines, rates, onRatesChange }) => {
+  const { showInternal } = usePricingVisibility();
+  const [zoneIndex, setZoneIndex] = useState(0);
+  const [editing, setEditing] = useState(false);
+
+  const estimate = useMemo(() => estimateShipment(lines, rates, zoneIndex), [lines, rates, zoneIndex]);
+
+  const setRate = (breakIdx: number, zoneIdx: number, value: string) =>
+    onRatesChange({
+      ...rates,
+      ratesPerCwt: rates.ratesPerCwt.map((row, b) => (b === breakIdx ? row.map((r, z) => (z === zoneIdx ? parseAmount(value) : r)) : row)),
+    });
+
+  const setBreak = (breakIdx: number, value: string) =>
+    onRatesChange({ ...rates, weightBreaks: rates.weightBreaks.map((w, b) => (b === breakIdx ? parseAmount(value) : w)) });
+
+  const setZoneName = (zoneIdx: number, value: string) =>
+    onRatesChange({ ...rates, zones: rates.zones.map((z, i) => (i === zoneIdx ? value : z)) });
+
+  const addZone = () =>
+    onRatesChange({
+      ...rates,
+      zones: [...rates.zones, `Zone ${rates.zones.length + 1}`],
+      ratesPerCwt: rates.ratesPerCwt.map(row => [...row, row[row.length - 1] ?? 0]),
+    });
+
+  const removeZone = () => {
+    if (rates.zones.length <= 1) return;
+    onRatesChange({ ...rates, zones: rates.zones.slice(0, -1), ratesPerCwt: rates.ratesPerCwt.map(row => row.slice(0, -1)) });
+    setZoneIndex(prev => Math.min(prev, rates.zones.length - 2));
+  };
+
+  const addBreak = () =>
+    onRatesChange({
+      ...rates,
+      weightBreaks: [...rates.weightBreaks, (rates.weightBreaks[rates.weightBreaks.length - 1] ?? 0) + 1000],
+      ratesPerCwt: [...rates.ratesPerCwt, [...(rates.ratesPerCwt[rates.ratesPerCwt.length - 1] ?? rates.zones.map(() => 0))]],
+    });
+
+  const removeBreak = () => {
+    if (rates.weightBreaks.length <= 1) return;
+    onRatesChange({ ...rates, weightBreaks: rates.weightBreaks.slice(0, -1), ratesPerCwt: rates.ratesPerCwt.slice(0, -1) });
+  };
+
+  // Breaks are matched by lower bound, so keep them ascending once editing is done
+  const finishEditing = () => {
+    const order = rates.weightBreaks.map((w, i) => ({ w, i })).sort((a, b) => a.w - b.w);
+    onRatesChange({
+      ...rates,
+      weightBreaks: order.map(o => o.w),
+      ratesPerCwt: order.map(o => rates.ratesPerCwt[o.i]),
+    });
+    setEditing(false);
+  };
+
+  const breakLabel = (idx: number) => {
+    const next = rates.weightBreaks[idx + 1];
+    return next === undefined ? `${rates.weightBreaks[idx]}+ lbs` : `${rates.weightBreaks[idx]}–${next - 1} lbs`;
+  };
+
+  return (
+    <div className="bg-white rounded-3xl p-8 border border-slate-200 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3 text-indigo-500">
+          <Truck className="w-4 h-4" />
+          <span className="text-sm font-bold uppercase tracking-wider">Shipping Estimate</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Destination Zone</label>
+          <select
+            value={zoneIndex}
+            onChange={(e) => setZoneIndex(parseInt(e.target.value, 10))}
+            className="bg-slate-100 rounded-xl px-3 py-2 text-sm font-bold text-slate-700 outline-none focus:ring-2 focus:ring-indigo-500/20"
+          >
+            {rates.zones.map((z, i) => <option key={i} value={i}>{z}</option>)}
+          </select>
+          {showInternal && (
+            <button
+              onClick={() => (editing ? finishEditing() : setEditing(true))}
+              className={`p-2 rounded-xl transition-all ${editing ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'}`}
+              title={editing ? 'Done editing rates' : 'Edit freight rate table'}
+            >
+              <Settings2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: 'Gross Weight', value: `${estimate.totalWeight.toFixed(1)} lbs`, color: 'text-slate-700', bg: 'bg-slate-100/50' },
+          { label: 'Hazmat Lines', value: `${estimate.hazmatLines} of ${estimate.lineCount}`, color: estimate.hazmatLines > 0 ? 'text-rose-600' : 'text-slate-700', bg: estimate.hazmatLines > 0 ? 'bg-rose-50/50' : 'bg-slate-100/50' },
+          { label: 'Service', value: estimate.groundOnly ? 'Ground Only' : 'Any', color: estimate.groundOnly ? 'text-rose-600' : 'text-emerald-600', bg: estimate.groundOnly ? 'bg-rose-50/50' : 'bg-emerald-50/50' },
+          { label: 'Est. Freight', value: formatCurrency(estimate.freight), color: 'text-indigo-600', bg: 'bg-indigo-50/50' },
+        ].map(stat => (
+          <div key={stat.label} className={`${stat.bg} rounded-2xl p-5 border border-white`}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{stat.label}</p>
+            <p className={`text-xl font-black tabular-nums ${stat.color}`}>{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2 text-xs font-medium text-slate-500">
+        {estimate.lineCount > 0 && (
+          <p>
+            {breakLabel(estimate.breakIndex)} break at {formatCurrency(estimate.ratePerCwt)}/cwt
+            {estimate.minimumApplied && <> • minimum charge {formatCurrency(rates.minimumCharge)} applied</>}
+            {estimate.hazmatLines > 0 && <> • includes {formatCurrency(rates.hazmatFee)} hazmat fee</>}
+          </p>
+        )}
+        {estimate.groundOnly && (
+          <p className="flex items-center text-rose-600 font-semibold">
+            <TriangleAlert className="w-3.5 h-3.5 mr-1.5" />
+            {estimate.hazmatWeight.toFixed(1)} lbs regulated ({estimate.dotClasses.join(', ')}) — ship ground with hazmat paperwork.
+          </p>
+        )}
+        {estimate.unknownWeightSkus.length > 0 && (
+          <p className="flex items-center text-amber-600 font-semibold">
+            <AlertCircle className="w-3.5 h-3.5 mr-1.5" />
+            No gross weight on file for {estimate.unknownWeightSkus.join(', ')}; the total is understated.
+          </p>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-6 pt-6 border-t border-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest">Freight Rates ($ per 100 lbs)</h3>
+            <div className="flex items-center space-x-2">
+              <button onClick={addZone} className="flex items-center space-x-1 text-xs font-bold text-indigo-600 hover:text-indigo-800"><Plus className="w-3.5 h-3.5" /><span>Zone</span></button>
+              <button onClick={removeZone} className="flex items-center space-x-1 text-xs font-bold text-slate-400 hover:text-red-600"><Minus className="w-3.5 h-3.5" /><span>Zone</span></button>
+              <button onClick={addBreak} className="flex items-center space-x-1 text-xs font-bold text-indigo-600 hover:text-indigo-800"><Plus className="w-3.5 h-3.5" /><span>Break</span></button>
+              <button onClick={removeBreak} className="flex items-center space-x-1 text-xs font-bold text-slate-400 hover:text-red-600"><Minus className="w-3.5 h-3.5" /><span>Break</span></button>
+              <button
+                onClick={() => confirm('Replace the rate table with the sample rates?') && onRatesChange(DEFAULT_FREIGHT_RATES)}
+                className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                title="Reset to sample rates"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-left">
+                  <th className="py-2 pr-3 w-32">From (lbs)</th>
+                  {rates.zones.map((z, i) => (
+                    <th key={i} className="py-2 pr-3 min-w-[90px]">
+                      <input type="text" value={z} onChange={(e) => setZoneName(i, e.target.value)} className={cellInput} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rates.weightBreaks.map((w, b) => (
+                  <tr key={b}>
+                    <td className="py-1 pr-3">
+                      <input type="number" min={0} value={w} onChange={(e) => setBreak(b, e.target.value)} className={cellInput} />
+                    </td>
+                    {rates.zones.map((_, z) => (
+                      <td key={z} className="py-1 pr-3">
+                        <input type="number" min={0} step={0.01} value={rates.ratesPerCwt[b][z]} onChange={(e) => setRate(b, z, e.target.value)} className={cellInput} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex flex-wrap gap-6">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Minimum Charge
+              <input type="number" min={0} value={rates.minimumCharge} onChange={(e) => onRatesChange({ ...rates, minimumCharge: parseAmount(e.target.value) })} className={`${cellInput} mt-1 w-28 block`} />
+            </label>
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              Hazmat Fee
+              <input type="number" min={0} value={rates.hazmatFee} onChange={(e) => onRatesChange({ ...rates, hazmatFee: parseAmount(e.target.value) })} className={`${cellInput} mt-1 w-28 block`} />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingEstimator;
@@ -0,0 +1,110 @@
+
+export const CSV_DELIMITERS = [',', ';', '\t'] as const;
+export type CSVDelimiter = typeof CSV_DELIMITERS[number];
+
+export interface CSVRecord {
+  cells: string[];
+  // 1-based lines the record spans in the source; they differ when a quoted cell holds line breaks
+  startLine: number;
+  endLine: number;
+  // Offset just past the record in the source text, for progress reporting
+  end: number;
+  // The file ended inside a quoted cell, so everything from startLine on was read into this record
+  unclosedQuote: boolean;
+}
+
+// Picks whichever delimiter appears most often outside quotes on the first non-blank line; ties go to comma
+export const detectDelimiter = (text: string): CSVDelimiter => {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+  let seenContent = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (seenContent) break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+      seenContent = true;
+    } else if (char.trim()) {
+      seenContent = true;
+    }
+  }
+  return CSV_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), CSV_DELIMITERS[0]);
+};
+
+// Streaming RFC 4180 tokenizer. Quoted cells may contain delimiters, doubled quotes and line breaks.
+// The report pads cells with spaces, so cells are trimmed, whitespace before an opening quote or after a
+// closing one is ignored, and a quote in the middle of an unquoted cell is kept as a literal character
+// rather than swallowing the rest of the file. Blank lines produce no record.
+export function* readCSVRecords(text: string, delimiter: CSVDelimiter = detectDelimiter(text)): Generator<CSVRecord> {
+  let cells: string[] = [];
+  let cur = '';
+  let inQuotes = false;
+  let quotedCell = false;
+  let line = 1;
+  let startLine = 1;
+  let hasContent = false;
+
+  const endCell = () => {
+    cells.push(cur.trim());
+    cur = '';
+    quotedCell = false;
+  };
+
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cur += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        cur += '\n';
+        line++;
+      } else {
+        cur += char;
+      }
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      if (hasContent) {
+        endCell();
+        yield { cells, startLine, endLine: line, end: i + 1, unclosedQuote: false };
+      }
+      cells = [];
+      cur = '';
+      quotedCell = false;
+      hasContent = false;
+      line++;
+      startLine = line;
+    } else if (char === delimiter) {
+      endCell();
+      hasContent = true;
+    } else if (char === '"' && !quotedCell && !cur.trim()) {
+      cur = '';
+      inQuotes = true;
+      quotedCell = true;
+      hasContent = true;
+    } else if (quotedCell) {
+      // Padding after the closing quote
+      if (char.trim()) cur += char;
+    } else {
+      cur += char;
+      if (char.trim()) hasContent = true;
+    }
+  }
+
+  if (hasContent) {
+    endCell();
+    yield { cells, startLine, endLine: line, end: text.length, unclosedQuote: inQuotes };
+  }
+}
@@ -0,0 +1,122 @@
+
+import { ContractRule, CustomerAccount, PriceTier, ProductVariant } from './types';
+import { getTierPrice } from './utils';
+
+export const CUSTOMERS_STORAGE_KEY = 'state_chemical_customers_v1';
+export const ACTIVE_CUSTOMER_STORAGE_KEY = 'state_chemical_active_customer_v1';
+
+export type EffectivePriceSource = 'skuContract' | 'familyContract' | 'tier';
+
+export interface EffectivePrice {
+  price: number;
+  source: EffectivePriceSource;
+  // Tier the price falls back to when no contract rule applies
+  tier: PriceTier;
+  rule: ContractRule | null;
+  belowFloor: boolean;
+}
+
+export const EFFECTIVE_SOURCE_LABELS: Record<EffectivePriceSource, string> = {
+  skuContract: 'SKU contract',
+  familyContract: 'Family contract',
+  tier: 'Account tier',
+};
+
+const TIERS = Object.values(PriceTier);
+
+const createId = () => `cust-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCustomer = (name = ''): CustomerAccount => ({
+  id: createId(),
+  name,
+  defaultTier: PriceTier.Standard,
+  rules: [],
+});
+
+const isRule = (value: unknown): value is ContractRule => {
+  const r = value as ContractRule;
+  return !!r
+    && (r.scope === 'sku' || r.scope === 'family')
+    && typeof r.target === 'string'
+    && (r.kind === 'price' || r.kind === 'percentOff')
+    && typeof r.value === 'number' && Number.isFinite(r.value);
+};
+
+const normalizeCustomer = (value: unknown): CustomerAccount | null => {
+  const c = value as CustomerAccount;
+  if (!c || typeof c.name !== 'string' || !c.name.trim()) return null;
+  return {
+    id: typeof c.id === 'string' && c.id ? c.id : createId(),
+    name: c.name.trim(),
+    defaultTier: TIERS.includes(c.defaultTier) ? c.defaultTier : PriceTier.Standard,
+    rules: Array.isArray(c.rules) ? c.rules.filter(isRule) : [],
+  };
+};
+
+export const loadCustomers = (): CustomerAccount[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CUSTOMERS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(normalizeCustomer).filter((c): c is CustomerAccount => c !== null);
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomers = (customers: CustomerAccount[]) => {
+  localStorage.setItem(CUSTOMERS_STORAGE_KEY, JSON.stringify(customers));
+};
+
+export const loadActiveCustomerId = (): string | null => localStorage.getItem(ACTIVE_CUSTOMER_STORAGE_KEY);
+
+export const saveActiveCustomerId = (id: string | null) => {
+  if (id) localStorage.setItem(ACTIVE_CUSTOMER_STORAGE_KEY, id);
+  else localStorage.removeItem(ACTIVE_CUSTOMER_STORAGE_KEY);
+};
+
+export const customersToJSON = (customers: CustomerAccount[]): string =>
+  JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), customers }, null, 2);
+
+// Accepts either the exported envelope or a bare array of accounts
+export const parseCustomersJSON = (json: string): CustomerAccount[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { customers?: unknown })?.customers;
+  if (!Array.isArray(list)) throw new Error('No customer accounts found in file.');
+  const customers = list.map(normalizeCustomer).filter((c): c is CustomerAccount => c !== null);
+  if (customers.length === 0) throw new Error('No valid customer accounts found in file.');
+  return customers;
+};
+
+// Imported accounts replace existing ones with the same id and are appended otherwise
+export const mergeCustomers = (existing: CustomerAccount[], incoming: CustomerAccount[]): CustomerAccount[] => {
+  const byId = new Map(existing.map(c => [c.id, c]));
+  incoming.forEach(c => byId.set(c.id, c));
+  return Array.from(byId.values());
+};
+
+const applyRule = (rule: ContractRule, variant: ProductVariant) =>
+  rule.kind === 'price' ? rule.value : variant.stdPrice * (1 - rule.value / 100);
+
+// A SKU rule beats a family rule, which beats the account's default tier
+export const resolveCustomerPrice = (variant: ProductVariant, account: CustomerAccount): EffectivePrice => {
+  const skuRule = account.rules.find(r => r.scope === 'sku' && r.target.trim() === variant.sku);
+  const familyRule = skuRule ? undefined : account.rules.find(
+    r => r.scope === 'family' && r.target.trim().toLowerCase() === variant.family.toLowerCase()
+  );
+  const rule = skuRule || familyRule || null;
+  const price = rule ? applyRule(rule, variant) : getTierPrice(variant, account.defaultTier);
+
+  return {
+    price,
+    source: skuRule ? 'skuContract' : familyRule ? 'familyContract' : 'tier',
+    tier: account.defaultTier,
+    rule,
+    // Compare in cents so a contract price equal to Floor isn't flagged by float noise
+    belowFloor: Math.round(price * 100) < Math.round(variant.floorPrice * 100),
+  };
+};
@@ -0,0 +1,62 @@
+
+// Minimal promise wrapper around IndexedDB; the catalog history is too large for localStorage
+const DB_NAME = 'state_chemical_catalog';
+const DB_VERSION = 2;
+
+export const STORES = {
+  catalogVersions: 'catalogVersions',
+  // Out-of-line keyed records: the current catalog CSV, the working quote
+  keyValue: 'keyValue',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.catalogVersions)) {
+        db.createObjectStore(STORES.catalogVersions, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(STORES.keyValue)) {
+        db.createObjectStore(STORES.keyValue);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key) as IDBRequest<T | undefined>);
+};
+
+export const put = async <T>(store: StoreName, value: T, key?: IDBValidKey): Promise<IDBValidKey> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const remove = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
@@ -0,0 +1,178 @@
+
+import { ProductGroup, ProductVariant } from './types';
+import { readCSVRecords } from './csv';
+import { normalizeHeader } from './columns';
+
+export const DILUTION_MAP_STORAGE_KEY = 'state_chemical_dilutions_v1';
+
+const OUNCES_PER_GALLON = 128;
+
+// How a concentrate is mixed, kept as ounces of concentrate per gallon of ready-to-use solution
+export interface DilutionSetting {
+  ouncesPerGallon: number;
+  // Ready-to-use ounces one application takes (a 32 oz spray bottle, a 4 gal mop bucket); null when unknown
+  applicationOunces: number | null;
+  applicationLabel: string;
+}
+
+// SKU settings win over the parent's, so one pack size can differ from the rest of its product
+export interface DilutionMap {
+  skus: Record<string, DilutionSetting>;
+  parents: Record<string, DilutionSetting>;
+}
+
+export interface CostPerUse {
+  // Ready-to-use gallons the selling unit makes
+  rtuGallons: number;
+  perRtuGallon: number;
+  perRtuOunce: number;
+  perApplication: number | null;
+}
+
+export const createEmptyDilutionMap = (): DilutionMap => ({ skus: {}, parents: {} });
+
+const parentKey = (parentName: string) => parentName.trim().toUpperCase();
+
+export const loadDilutionMap = (): DilutionMap => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DILUTION_MAP_STORAGE_KEY) || 'null');
+    return parsed && typeof parsed.skus === 'object' && typeof parsed.parents === 'object'
+      ? { skus: parsed.skus || {}, parents: parsed.parents || {} }
+      : createEmptyDilutionMap();
+  } catch {
+    return createEmptyDilutionMap();
+  }
+};
+
+export const saveDilutionMap = (map: DilutionMap) => {
+  localStorage.setItem(DILUTION_MAP_STORAGE_KEY, JSON.stringify(map));
+};
+
+export const findDilution = (map: DilutionMap, variant: ProductVariant, group: ProductGroup): DilutionSetting | null =>
+  map.skus[variant.sku.toUpperCase()] || map.parents[parentKey(group.parentName)] || null;
+
+export const setSkuDilution = (map: DilutionMap, sku: string, setting: DilutionSetting | null): DilutionMap => {
+  const skus = { ...map.skus };
+  const key = sku.toUpperCase();
+  if (setting) skus[key] = setting;
+  else delete skus[key];
+  return { ...map, skus };
+};
+
+// Accepts label notation ("1:64", "1/64"), ounces per gallon ("2 oz/gal", "2oz") or "RTU".
+// "1:64" is read as 1 part concentrate in 64 parts of solution, which is how labels print it (2 oz/gal).
+export const parseDilutionRatio = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) return null;
+  if (value === 'rtu' || value === 'ready to use') return OUNCES_PER_GALLON;
+  const ratio = value.match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+  if (ratio) {
+    const concentrate = Number(ratio[1]);
+    const parts = Number(ratio[2]);
+    return concentrate > 0 && parts >= concentrate ? (OUNCES_PER_GALLON * concentrate) / parts : null;
+  }
+  const ounces = value.match(/^(\d+(?:\.\d+)?)\s*(?:oz|ounces?)?\s*(?:\/\s*(?:gal|gallon|gl))?$/);
+  if (ounces) {
+    const num = Number(ounces[1]);
+    return num > 0 && num <= OUNCES_PER_GALLON ? num : null;
+  }
+  return null;
+};
+
+const trimNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// The label notation parseDilutionRatio reads back: "1:64" or "RTU"
+export const formatRatio = (ouncesPerGallon: number) =>
+  ouncesPerGallon >= OUNCES_PER_GALLON ? 'RTU' : `1:${trimNumber(OUNCES_PER_GALLON / ouncesPerGallon)}`;
+
+export const formatDilution = (ouncesPerGallon: number) =>
+  ouncesPerGallon >= OUNCES_PER_GALLON
+    ? 'Ready to use'
+    : `${formatRatio(ouncesPerGallon)} (${trimNumber(ouncesPerGallon)} oz/gal)`;
+
+// Accepts "32", "32 oz", "4 gal" or "1 qt" and returns ready-to-use ounces
+export const parseApplicationSize = (text: string): number | null => {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(oz|ounces?|gal|gallons?|gl|qt|quarts?)?$/);
+  if (!match) return null;
+  const num = Number(match[1]);
+  if (!(num > 0)) return null;
+  const unit = match[2] || 'oz';
+  if (unit.startsWith('g')) return num * OUNCES_PER_GALLON;
+  if (unit.startsWith('q')) return num * 32;
+  return num;
+};
+
+export const formatOunces = (ounces: number) =>
+  ounces >= OUNCES_PER_GALLON && ounces % 32 === 0 ? `${trimNumber(ounces / OUNCES_PER_GALLON)} gal` : `${trimNumber(ounces)} oz`;
+
+// Null when the selling unit's liquid volume isn't known from its description
+export const calculateCostPerUse = (variant: ProductVariant, price: number, setting: DilutionSetting): CostPerUse | null => {
+  const gallons = variant.packaging.totalGallons;
+  if (!gallons || setting.ouncesPerGallon <= 0) return null;
+  const rtuGallons = (gallons * OUNCES_PER_GALLON) / Math.min(setting.ouncesPerGallon, OUNCES_PER_GALLON);
+  const perRtuGallon = price / rtuGallons;
+  const perRtuOunce = perRtuGallon / OUNCES_PER_GALLON;
+  return {
+    rtuGallons,
+    perRtuGallon,
+    perRtuOunce,
+    perApplication: setting.applicationOunces ? perRtuOunce * setting.applicationOunces : null,
+  };
+};
+
+export interface DilutionImportResult {
+  map: DilutionMap;
+  imported: number;
+  // 1-based lines that couldn't be read
+  skippedLines: number[];
+}
+
+const SKU_HEADERS = ['sku', 'item', 'itemnumber', 'material'];
+const PARENT_HEADERS = ['parent', 'parentname', 'product', 'productparentdescription'];
+const RATIO_HEADERS = ['dilution', 'ratio', 'dilutionratio', 'ozpergal', 'ozgal'];
+const APPLICATION_HEADERS = ['application', 'applicationsize', 'usesize', 'perapplication', 'applicationoz'];
+const LABEL_HEADERS = ['applicationlabel', 'use', 'method', 'label'];
+
+// Local mapping file: a header row naming a SKU or parent column and a dilution column, with optional
+// application size and label, e.g. "SKU,Dilution,Application,Use" / "113295,1:64,32 oz,Spray bottle".
+// Imported rows are merged over the existing map.
+export const importDilutionMap = (text: string, existing: DilutionMap): DilutionImportResult => {
+  const records = readCSVRecords(text);
+  const first = records.next();
+  if (first.done) throw new Error('The mapping file is empty.');
+  const header = first.value.cells.map(normalizeHeader);
+  const find = (aliases: string[]) => header.findIndex(h => aliases.includes(h));
+  const skuIdx = find(SKU_HEADERS);
+  const parentIdx = find(PARENT_HEADERS);
+  const ratioIdx = find(RATIO_HEADERS);
+  const applicationIdx = find(APPLICATION_HEADERS);
+  const labelIdx = find(LABEL_HEADERS);
+  if (ratioIdx === -1 || (skuIdx === -1 && parentIdx === -1)) {
+    throw new Error('The mapping file needs a Dilution column and a SKU or Parent column.');
+  }
+
+  const map: DilutionMap = { skus: { ...existing.skus }, parents: { ...existing.parents } };
+  const skippedLines: number[] = [];
+  let imported = 0;
+
+  for (const { cells, startLine } of records) {
+    const at = (idx: number) => (idx === -1 ? '' : cells[idx] || '');
+    const ouncesPerGallon = parseDilutionRatio(at(ratioIdx));
+    const sku = at(skuIdx).toUpperCase();
+    const parent = parentKey(at(parentIdx));
+    if (ouncesPerGallon === null || (!sku && !parent)) {
+      skippedLines.push(startLine);
+      continue;
+    }
+    const setting: DilutionSetting = {
+      ouncesPerGallon,
+      applicationOunces: parseApplicationSize(at(applicationIdx)),
+      applicationLabel: at(labelIdx),
+    };
+    if (sku) map.skus[sku] = setting;
+    else map.parents[parent] = setting;
+    imported++;
+  }
+
+  return { map, imported, skippedLines };
+};
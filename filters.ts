@@ -0,0 +1,118 @@
+
+import { ProductGroup, ProductVariant, PriceTier } from './types';
+import { getTierPrice } from './utils';
+import { classificationLabel } from './sections';
+
+export type FacetKey = 'productLines' | 'families' | 'units' | 'dotClasses' | 'classifications';
+
+export interface CatalogFilters {
+  productLines: string[];
+  families: string[];
+  units: string[];
+  dotClasses: string[];
+  classifications: string[];
+  priceTier: PriceTier;
+  priceMin: number | null;
+  priceMax: number | null;
+  weightMin: number | null;
+  weightMax: number | null;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetKey, FacetValue[]>;
+
+// Rows with a blank DOTClass are grouped under this facet value
+export const NON_HAZMAT = 'Non-regulated';
+
+export const createEmptyFilters = (): CatalogFilters => ({
+  productLines: [],
+  families: [],
+  units: [],
+  dotClasses: [],
+  classifications: [],
+  priceTier: PriceTier.Standard,
+  priceMin: null,
+  priceMax: null,
+  weightMin: null,
+  weightMax: null,
+});
+
+export const countActiveFilters = (filters: CatalogFilters) =>
+  filters.productLines.length +
+  filters.families.length +
+  filters.units.length +
+  filters.dotClasses.length +
+  filters.classifications.length +
+  (filters.priceMin !== null || filters.priceMax !== null ? 1 : 0) +
+  (filters.weightMin !== null || filters.weightMax !== null ? 1 : 0);
+
+const facetValue = (variant: ProductVariant, facet: FacetKey): string => {
+  switch (facet) {
+    case 'productLines': return variant.productLine;
+    case 'families': return variant.family;
+    case 'units': return variant.unit;
+    case 'dotClasses': return variant.dotClass || NON_HAZMAT;
+    case 'classifications': return classificationLabel(variant.classification);
+  }
+};
+
+const FACETS: FacetKey[] = ['productLines', 'families', 'units', 'dotClasses', 'classifications'];
+
+const inRange = (value: number, min: number | null, max: number | null) =>
+  (min === null || value >= min) && (max === null || value <= max);
+
+// `ignore` lets facet counts be computed against every selection except the facet's own
+export const variantMatchesFilters = (variant: ProductVariant, filters: CatalogFilters, ignore?: FacetKey): boolean => {
+  for (const facet of FACETS) {
+    if (facet === ignore) continue;
+    const selected = filters[facet];
+    if (selected.length > 0 && !selected.includes(facetValue(variant, facet))) return false;
+  }
+  return (
+    inRange(getTierPrice(variant, filters.priceTier), filters.priceMin, filters.priceMax) &&
+    inRange(variant.weight, filters.weightMin, filters.weightMax)
+  );
+};
+
+// A product stays in the list when at least one of its variants satisfies every filter
+export const applyFilters = (groups: ProductGroup[], filters: CatalogFilters): ProductGroup[] => {
+  if (countActiveFilters(filters) === 0) return groups;
+  return groups.filter(g => g.variants.some(v => variantMatchesFilters(v, filters)));
+};
+
+// Counts are products (not SKUs) that would remain if that value were added to the selection
+export const computeFacetCounts = (groups: ProductGroup[], filters: CatalogFilters): FacetCounts => {
+  const counts = {} as FacetCounts;
+
+  FACETS.forEach(facet => {
+    const tally = new Map<string, number>();
+    groups.forEach(group => {
+      const values = new Set<string>();
+      group.variants.forEach(v => {
+        if (variantMatchesFilters(v, filters, facet)) values.add(facetValue(v, facet));
+      });
+      values.forEach(value => tally.set(value, (tally.get(value) || 0) + 1));
+    });
+
+    // Keep selected values visible even when nothing else matches them
+    filters[facet].forEach(value => { if (!tally.has(value)) tally.set(value, 0); });
+
+    counts[facet] = Array.from(tally, ([value, count]) => ({ value, count }))
+      .filter(f => f.value)
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  });
+
+  return counts;
+};
+
+export const toggleFacetValue = (filters: CatalogFilters, facet: FacetKey, value: string): CatalogFilters => {
+  const selected = filters[facet];
+  return {
+    ...filters,
+    [facet]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value],
+  };
+};
@@ -0,0 +1,60 @@
+
+import { ProductGroup } from './types';
+
+// Parents are only unique within their product line and family; the same name can appear under two families
+export const groupKey = (productLine: string, family: string, parentName: string) =>
+  [productLine, family, parentName].join('|');
+
+export const UNASSIGNED_LINE = 'No Product Line';
+
+export const lineLabel = (productLine: string) => productLine || UNASSIGNED_LINE;
+
+// Line › Family › Parent, for breadcrumbs and messages
+export const formatGroupPath = (group: Pick<ProductGroup, 'productLine' | 'family' | 'parentName'>) =>
+  [lineLabel(group.productLine), group.family, group.parentName].join(' › ');
+
+export interface FamilyNode {
+  key: string;
+  productLine: string;
+  family: string;
+  groups: ProductGroup[];
+  skuCount: number;
+}
+
+export interface LineNode {
+  key: string;
+  productLine: string;
+  families: FamilyNode[];
+  productCount: number;
+  skuCount: number;
+}
+
+// Groups arrive sorted by parent name and keep that order inside each family
+export const buildBrowseTree = (groups: ProductGroup[]): LineNode[] => {
+  const lines = new Map<string, LineNode>();
+  const families = new Map<string, FamilyNode>();
+
+  groups.forEach(group => {
+    let line = lines.get(group.productLine);
+    if (!line) {
+      line = { key: group.productLine, productLine: group.productLine, families: [], productCount: 0, skuCount: 0 };
+      lines.set(group.productLine, line);
+    }
+    const familyKey = groupKey(group.productLine, group.family, '');
+    let family = families.get(familyKey);
+    if (!family) {
+      family = { key: familyKey, productLine: group.productLine, family: group.family, groups: [], skuCount: 0 };
+      families.set(familyKey, family);
+      line.families.push(family);
+    }
+    family.groups.push(group);
+    family.skuCount += group.variants.length;
+    line.productCount++;
+    line.skuCount += group.variants.length;
+  });
+
+  const byName = (a: string, b: string) => (!a ? 1 : !b ? -1 : a.localeCompare(b));
+  return Array.from(lines.values())
+    .sort((a, b) => byName(a.productLine, b.productLine))
+    .map(line => ({ ...line, families: line.families.sort((a, b) => a.family.localeCompare(b.family)) }));
+};
@@ -0,0 +1,108 @@
+
+import { CatalogVersion, CatalogDiff, ProductGroup, ProductVariant, PriceTier, TierPriceChange, VariantPriceChange } from './types';
+import { STORES, getAll, getOne, put, remove } from './db';
+import { buildVariantIndex, getTierPrice, toCSV } from './utils';
+import { RetiredSku } from './lookup';
+import type { CatalogParser } from './catalogWorker';
+
+export const listCatalogVersions = async (): Promise<CatalogVersion[]> => {
+  const versions = await getAll<CatalogVersion>(STORES.catalogVersions);
+  return versions.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+};
+
+export const getCatalogVersion = (id: number) => getOne<CatalogVersion>(STORES.catalogVersions, id);
+
+export const addCatalogVersion = async (version: Omit<CatalogVersion, 'id'>): Promise<number> =>
+  (await put(STORES.catalogVersions, version)) as number;
+
+export const deleteCatalogVersion = (id: number) => {
+  versionSkuCache.delete(id);
+  return remove(STORES.catalogVersions, id);
+};
+
+// SKU → description of each stored upload. Versions never change once saved, so each is parsed once a session.
+const versionSkuCache = new Map<number, Promise<Map<string, string>>>();
+
+const readVersionSkus = (version: CatalogVersion, parse: CatalogParser): Promise<Map<string, string>> => {
+  const cached = version.id !== undefined ? versionSkuCache.get(version.id) : undefined;
+  if (cached) return cached;
+  const skus = parse(version.csv).then(groups => {
+    const descriptions = new Map<string, string>();
+    groups.forEach(g => g.variants.forEach(v => descriptions.set(v.sku, v.description)));
+    return descriptions;
+  });
+  if (version.id !== undefined) {
+    versionSkuCache.set(version.id, skus);
+    skus.catch(() => versionSkuCache.delete(version.id!));
+  }
+  return skus;
+};
+
+// SKUs from earlier uploads that the current catalog no longer carries, keyed by SKU with the newest sighting
+export const findRetiredSkus = async (
+  current: Map<string, ProductVariant>,
+  parse: CatalogParser
+): Promise<Map<string, RetiredSku>> => {
+  const retired = new Map<string, RetiredSku>();
+  const versions = await listCatalogVersions();
+  const versionSkus = await Promise.all(versions.map(version => readVersionSkus(version, parse)));
+  versions.forEach((version, i) => {
+    versionSkus[i].forEach((description, sku) => {
+      if (current.has(sku) || retired.has(sku)) return;
+      retired.set(sku, { sku, description, lastSeenIn: version.fileName, lastSeenAt: version.uploadedAt });
+    });
+  });
+  return retired;
+};
+
+const TIERS = Object.values(PriceTier);
+
+// Prices are compared in cents so float noise from parsing never shows up as a change
+const toCents = (value: number) => Math.round(value * 100);
+
+export const diffCatalogs = (before: ProductGroup[], after: ProductGroup[]): CatalogDiff => {
+  const oldIndex = buildVariantIndex(before);
+  const newIndex = buildVariantIndex(after);
+  const added: ProductVariant[] = [];
+  const removed: ProductVariant[] = [];
+  const changed: VariantPriceChange[] = [];
+
+  newIndex.forEach((variant, sku) => {
+    const previous = oldIndex.get(sku);
+    if (!previous) {
+      added.push(variant);
+      return;
+    }
+    const changes = TIERS.reduce<TierPriceChange[]>((acc, tier) => {
+      const from = getTierPrice(previous, tier);
+      const to = getTierPrice(variant, tier);
+      if (toCents(from) !== toCents(to)) {
+        acc.push({ tier, from, to, delta: to - from, percent: from !== 0 ? ((to - from) / from) * 100 : null });
+      }
+      return acc;
+    }, []);
+    if (changes.length > 0) changed.push({ before: previous, after: variant, changes });
+  });
+
+  oldIndex.forEach((variant, sku) => {
+    if (!newIndex.has(sku)) removed.push(variant);
+  });
+
+  const bySku = (a: ProductVariant, b: ProductVariant) => a.sku.localeCompare(b.sku);
+  return {
+    added: added.sort(bySku),
+    removed: removed.sort(bySku),
+    changed: changed.sort((a, b) => bySku(a.after, b.after)),
+  };
+};
+
+export const catalogDiffToCSV = (diff: CatalogDiff): string => {
+  const rows: (string | number)[][] = [['Status', 'SKU', 'Description', 'Unit', 'Tier', 'Old Price', 'New Price', 'Change', 'Change %']];
+  diff.changed.forEach(c => c.changes.forEach(t => rows.push([
+    'CHANGED', c.after.sku, c.after.description, c.after.unit, t.tier,
+    t.from.toFixed(2), t.to.toFixed(2), t.delta.toFixed(2), t.percent === null ? '' : t.percent.toFixed(2),
+  ])));
+  diff.added.forEach(v => rows.push(['NEW', v.sku, v.description, v.unit, '', '', v.stdPrice.toFixed(2), '', '']));
+  diff.removed.forEach(v => rows.push(['DISCONTINUED', v.sku, v.description, v.unit, '', v.stdPrice.toFixed(2), '', '', '']));
+  return toCSV(rows);
+};
@@ -0,0 +1,91 @@
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Trails `value` by `delay` ms so expensive work runs once typing pauses
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+};
+
+export interface VirtualRows {
+  // Rows to render, [start, end)
+  start: number;
+  end: number;
+  totalHeight: number;
+  // Scrolls the nearest scrolling ancestor just enough to show the row
+  scrollToRow: (row: number) => void;
+}
+
+const findScrollParent = (el: HTMLElement): HTMLElement => {
+  for (let node = el.parentElement; node; node = node.parentElement) {
+    const { overflowY } = getComputedStyle(node);
+    if (overflowY === 'auto' || overflowY === 'scroll') return node;
+  }
+  return document.documentElement;
+};
+
+// Windowing for lists of fixed-height rows. `spacerRef` is the element as tall as every row together;
+// the caller renders rows [start, end) offset by start * rowHeight inside it.
+export const useVirtualRows = (
+  spacerRef: RefObject<HTMLElement | null>,
+  rowCount: number,
+  rowHeight: number,
+  overscan = 4
+): VirtualRows => {
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  const measure = () => {
+    const spacer = spacerRef.current;
+    if (!spacer) return;
+    const scroller = findScrollParent(spacer);
+    const viewTop = scroller.getBoundingClientRect().top - spacer.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(viewTop / rowHeight) - overscan);
+    const end = Math.min(rowCount, Math.ceil((viewTop + scroller.clientHeight) / rowHeight) + overscan);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  };
+  // Scroll and resize handlers always see the latest row count
+  const measureRef = useRef(measure);
+  measureRef.current = measure;
+
+  // The spacer unmounts and remounts as views change, so listeners follow whichever element is current
+  const attached = useRef<{ spacer: HTMLElement; detach: () => void } | null>(null);
+  useLayoutEffect(() => {
+    const spacer = spacerRef.current;
+    if (attached.current?.spacer !== spacer) {
+      attached.current?.detach();
+      attached.current = null;
+      if (spacer) {
+        const scroller = findScrollParent(spacer);
+        const target = scroller === document.documentElement ? window : scroller;
+        const onChange = () => measureRef.current();
+        target.addEventListener('scroll', onChange, { passive: true });
+        const observer = new ResizeObserver(onChange);
+        observer.observe(scroller);
+        attached.current = {
+          spacer,
+          detach: () => {
+            target.removeEventListener('scroll', onChange);
+            observer.disconnect();
+          },
+        };
+      }
+    }
+    measure();
+  });
+  useEffect(() => () => attached.current?.detach(), []);
+
+  const scrollToRow = useCallback((row: number) => {
+    const spacer = spacerRef.current;
+    if (!spacer || row < 0) return;
+    const scroller = findScrollParent(spacer);
+    const top = spacer.getBoundingClientRect().top - scroller.getBoundingClientRect().top + row * rowHeight;
+    if (top < 0) scroller.scrollTop += top;
+    else if (top + rowHeight > scroller.clientHeight) scroller.scrollTop += top + rowHeight - scroller.clientHeight;
+  }, [spacerRef, rowHeight]);
+
+  return { ...range, totalHeight: rowCount * rowHeight, scrollToRow };
+};
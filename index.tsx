@@ -1,6 +1,13 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/plus-jakarta-sans/300.css';
+import '@fontsource/plus-jakarta-sans/400.css';
+import '@fontsource/plus-jakarta-sans/500.css';
+import '@fontsource/plus-jakarta-sans/600.css';
+import '@fontsource/plus-jakarta-sans/700.css';
+import '@fontsource/plus-jakarta-sans/800.css';
+import './index.css';
 import App from './App';
 
 const rootElement = document.getElementById('root');
@@ -12,3 +19,10 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// The service worker only exists in production builds; registering it in dev would cache stale modules
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(() => undefined);
+  });
+}
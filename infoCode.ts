@@ -0,0 +1,102 @@
+
+import { ProductGroup, ProductVariant } from './types';
+import { formatCurrency } from './utils';
+
+// ProductInformationCode packs the pricing columns into one token, e.g. "3X969V31G139":
+//   3X   tens digit of the max discount (XX = under 10%)
+//   969  Floor rounded up to whole dollars (0 = Floor is Standard)
+//   V    QuantityCode, zero or more letters
+//   31   two-digit segment; its meaning isn't documented, so it's shown as-is
+//   G139 Give rounded up to whole dollars (GXX = Give is Standard)
+export interface DecodedInfoCode {
+  discountTens: number;
+  floorDollars: number | null;
+  quantityCode: string;
+  segment: string;
+  giveDollars: number | null;
+}
+
+export type InfoCodeField = 'code' | 'discount' | 'floor' | 'quantityCode' | 'give';
+
+export interface InfoCodeMismatch {
+  field: InfoCodeField;
+  // What the code says and what the row's own column says, ready to display
+  decoded: string;
+  actual: string;
+}
+
+export interface InfoCodeIssue {
+  variant: ProductVariant;
+  parentName: string;
+  mismatches: InfoCodeMismatch[];
+}
+
+export const INFO_CODE_FIELD_LABELS: Record<InfoCodeField, string> = {
+  code: 'Unreadable code',
+  discount: 'Max Discount',
+  floor: 'Floor',
+  quantityCode: 'Qty Code',
+  give: 'Give',
+};
+
+const INFO_CODE_FORMAT = /^(?:(\d)X|XX)(\d+)([A-Z]*)(\d{2})G(\d+|XX)$/;
+
+export const decodeInfoCode = (code: string): DecodedInfoCode | null => {
+  const match = code.trim().toUpperCase().match(INFO_CODE_FORMAT);
+  if (!match) return null;
+  const floor = Number(match[2]);
+  return {
+    discountTens: match[1] ? Number(match[1]) : 0,
+    floorDollars: floor === 0 ? null : floor,
+    quantityCode: match[3],
+    segment: match[4],
+    giveDollars: match[5] === 'XX' ? null : Number(match[5]),
+  };
+};
+
+// Prices are rounded to the cent first so 37.10 stored as 37.1000001 still becomes 38
+const wholeDollarsUp = (price: number) => Math.ceil(Math.round(price * 100) / 100);
+
+const samePrice = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+export const formatDiscountTens = (tens: number) => (tens === 0 ? 'Under 10%' : `${tens * 10}–${tens * 10 + 9}%`);
+
+export const formatDecodedPrice = (dollars: number | null) => (dollars === null ? 'Standard' : `≤ $${dollars}`);
+
+// An empty code has nothing to check; one that doesn't fit the format is reported on its own
+export const checkInfoCode = (variant: ProductVariant): InfoCodeMismatch[] => {
+  const code = variant.productInformationCode.trim();
+  if (!code) return [];
+  const decoded = decodeInfoCode(code);
+  if (!decoded) return [{ field: 'code', decoded: code, actual: 'Expected e.g. 3X969V31G139' }];
+
+  const mismatches: InfoCodeMismatch[] = [];
+  if (Math.floor(variant.discountPercent / 10) !== decoded.discountTens) {
+    mismatches.push({ field: 'discount', decoded: formatDiscountTens(decoded.discountTens), actual: `${variant.discountPercent}%` });
+  }
+  const floorMatches = decoded.floorDollars === null
+    ? samePrice(variant.floorPrice, variant.stdPrice)
+    : wholeDollarsUp(variant.floorPrice) === decoded.floorDollars;
+  if (!floorMatches) {
+    mismatches.push({ field: 'floor', decoded: formatDecodedPrice(decoded.floorDollars), actual: formatCurrency(variant.floorPrice) });
+  }
+  if (decoded.quantityCode !== variant.quantityCode.trim().toUpperCase()) {
+    mismatches.push({ field: 'quantityCode', decoded: decoded.quantityCode || '—', actual: variant.quantityCode || '—' });
+  }
+  const giveMatches = decoded.giveDollars === null
+    ? samePrice(variant.givePrice, variant.stdPrice)
+    : wholeDollarsUp(variant.givePrice) === decoded.giveDollars;
+  if (!giveMatches) {
+    mismatches.push({ field: 'give', decoded: formatDecodedPrice(decoded.giveDollars), actual: formatCurrency(variant.givePrice) });
+  }
+  return mismatches;
+};
+
+export const findInfoCodeIssues = (groups: ProductGroup[]): InfoCodeIssue[] => {
+  const issues: InfoCodeIssue[] = [];
+  groups.forEach(g => g.variants.forEach(v => {
+    const mismatches = checkInfoCode(v);
+    if (mismatches.length > 0) issues.push({ variant: v, parentName: g.parentName, mismatches });
+  }));
+  return issues;
+};
@@ -0,0 +1,78 @@
+
+import { compactText } from './search';
+
+// Typing in a field must never trigger single-key shortcuts
+export const isEditableTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  if (!el || !el.tagName) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+export const isPaletteShortcut = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey'>) =>
+  (event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k';
+
+// Next active index in a listbox laid out in `columns` columns; null when the key isn't a navigation key.
+// Left/Right step one item, Up/Down one row, Home/End jump to the ends. Movement stops at the edges.
+export const moveListIndex = (current: number, key: string, count: number, columns = 1): number | null => {
+  if (count === 0) return null;
+  const last = count - 1;
+  const from = Math.min(Math.max(current, -1), last);
+  switch (key) {
+    case 'ArrowDown': return from === -1 ? 0 : Math.min(last, from + columns);
+    case 'ArrowUp': return from === -1 ? 0 : Math.max(0, from - columns);
+    case 'ArrowRight': return columns > 1 ? Math.min(last, from + 1) : null;
+    case 'ArrowLeft': return columns > 1 ? Math.max(0, from - 1) : null;
+    case 'Home': return 0;
+    case 'End': return last;
+    default: return null;
+  }
+};
+
+// Columns currently rendered by a CSS grid, so arrow keys follow the responsive layout
+export const countGridColumns = (el: HTMLElement | null) => {
+  if (!el) return 1;
+  const template = getComputedStyle(el).gridTemplateColumns;
+  return template && template !== 'none' ? template.split(' ').filter(Boolean).length : 1;
+};
+
+export type PaletteSection = 'Action' | 'View' | 'Product' | 'SKU' | 'Family';
+
+export interface PaletteCommand {
+  id: string;
+  section: PaletteSection;
+  label: string;
+  detail?: string;
+  // Extra text the query can match, e.g. the SKUs under a product
+  keywords?: string;
+  run: () => void;
+}
+
+const SECTION_ORDER: PaletteSection[] = ['Action', 'View', 'SKU', 'Product', 'Family'];
+
+// With no query the palette lists actions and views; otherwise label prefix beats word prefix beats
+// substring, and an exact SKU match always comes first
+export const rankCommands = (commands: PaletteCommand[], query: string, limit = 50): PaletteCommand[] => {
+  const q = compactText(query);
+  if (!q) return commands.filter(c => c.section === 'Action' || c.section === 'View').slice(0, limit);
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const scored: { command: PaletteCommand; score: number }[] = [];
+  commands.forEach(command => {
+    const label = compactText(command.label);
+    const haystack = `${command.label} ${command.detail || ''} ${command.keywords || ''}`.toLowerCase();
+    if (!words.every(w => haystack.includes(w)) && !label.includes(q)) return;
+    let score = 1;
+    if (command.section === 'SKU' && label === q) score = 100;
+    else if (label.startsWith(q)) score = 10;
+    else if (haystack.split(/[^a-z0-9]+/).some(token => token.startsWith(words[0]))) score = 5;
+    scored.push({ command, score });
+  });
+
+  return scored
+    .sort((a, b) =>
+      b.score - a.score
+      || SECTION_ORDER.indexOf(a.command.section) - SECTION_ORDER.indexOf(b.command.section)
+      || a.command.label.localeCompare(b.command.label))
+    .slice(0, limit)
+    .map(s => s.command);
+};
@@ -0,0 +1,159 @@
+
+import { PriceTier, ProductVariant } from './types';
+import { getTierPrice } from './utils';
+import { compactText, editDistance } from './search';
+
+export type LookupStatus = 'found' | 'discontinued' | 'unknown';
+
+export interface SkuListEntry {
+  // 1-based line in the pasted text
+  lineNumber: number;
+  sku: string;
+  quantity: number;
+}
+
+// A SKU that was in an earlier uploaded catalog but isn't in the current one
+export interface RetiredSku {
+  sku: string;
+  description: string;
+  lastSeenIn: string;
+  lastSeenAt: string;
+}
+
+export interface LookupRow {
+  entry: SkuListEntry;
+  status: LookupStatus;
+  variant: ProductVariant | null;
+  retired: RetiredSku | null;
+  // Closest current SKUs for anything that didn't resolve
+  suggestions: ProductVariant[];
+}
+
+const MAX_SUGGESTIONS = 3;
+
+const HEADER_CELL = /^(sku|item|item\s*(no|number|#)|material\d*|part\s*(no|number|#)?|product)$/i;
+
+const parseQuantity = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const num = Number(value.replace(/[,\s]/g, ''));
+  return Number.isFinite(num) && num > 0 ? Math.max(1, Math.round(num)) : null;
+};
+
+// Accepts one SKU per line, "SKU, qty", "SKU qty", or rows copied from Excel (tab-separated). The quantity
+// is the cell right after the SKU, or the last numeric cell when Excel rows carry a description between.
+export const parseSkuList = (text: string): SkuListEntry[] => {
+  const entries: SkuListEntry[] = [];
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = (line.includes('\t') ? line.split('\t') : line.includes(',') ? line.split(',') : line.trim().split(/\s+/))
+      .map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+    const sku = cells[0];
+    if (!sku) return;
+    const quantity = parseQuantity(cells[1]) ?? parseQuantity(cells.length > 2 ? cells[cells.length - 1] : undefined);
+    if (entries.length === 0 && quantity === null && HEADER_CELL.test(sku)) return;
+    entries.push({ lineNumber: i + 1, sku: sku.toUpperCase(), quantity: quantity ?? 1 });
+  });
+  return entries;
+};
+
+// Leading zeros get dropped when lists pass through Excel, so they don't count against a match
+const skuKey = (sku: string) => compactText(sku).replace(/^0+(?=\d)/, '');
+
+export const buildSkuKeyIndex = (variants: Map<string, ProductVariant>): Map<string, ProductVariant> => {
+  const index = new Map<string, ProductVariant>();
+  variants.forEach(v => { if (!index.has(skuKey(v.sku))) index.set(skuKey(v.sku), v); });
+  return index;
+};
+
+export const suggestSkus = (
+  sku: string,
+  variants: Map<string, ProductVariant>,
+  retired: RetiredSku | null = null
+): ProductVariant[] => {
+  const key = skuKey(sku);
+  const maxDistance = Math.max(1, Math.floor(key.length / 3));
+  const retiredText = retired ? compactText(retired.description) : '';
+  const scored: { variant: ProductVariant; score: number }[] = [];
+
+  variants.forEach(v => {
+    const candidate = skuKey(v.sku);
+    // A discontinued item's replacement usually keeps the description under a new number
+    if (retiredText && compactText(v.description) === retiredText) {
+      scored.push({ variant: v, score: -1 });
+      return;
+    }
+    const distance = editDistance(key, candidate, maxDistance);
+    if (distance <= maxDistance) {
+      scored.push({ variant: v, score: distance });
+    } else if (key.length >= 4 && (candidate.startsWith(key) || key.startsWith(candidate))) {
+      scored.push({ variant: v, score: maxDistance + 1 });
+    }
+  });
+
+  return scored
+    .sort((a, b) => a.score - b.score || a.variant.sku.localeCompare(b.variant.sku))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(s => s.variant);
+};
+
+export const resolveSkuList = (
+  entries: SkuListEntry[],
+  variants: Map<string, ProductVariant>,
+  keyIndex: Map<string, ProductVariant>,
+  retiredSkus: Map<string, RetiredSku>
+): LookupRow[] =>
+  entries.map(entry => {
+    const variant = variants.get(entry.sku) || keyIndex.get(skuKey(entry.sku)) || null;
+    if (variant) return { entry, status: 'found', variant, retired: null, suggestions: [] };
+    const retired = retiredSkus.get(entry.sku) || null;
+    return {
+      entry,
+      status: retired ? 'discontinued' : 'unknown',
+      variant: null,
+      retired,
+      suggestions: suggestSkus(entry.sku, variants, retired),
+    };
+  });
+
+export interface LookupTotals {
+  found: number;
+  missing: number;
+  extended: number;
+  weight: number;
+}
+
+export const calculateLookupTotals = (rows: LookupRow[], tier: PriceTier): LookupTotals =>
+  rows.reduce((totals, row) => {
+    if (!row.variant) return { ...totals, missing: totals.missing + 1 };
+    return {
+      ...totals,
+      found: totals.found + 1,
+      extended: totals.extended + getTierPrice(row.variant, tier) * row.entry.quantity,
+      weight: totals.weight + row.variant.weight * row.entry.quantity,
+    };
+  }, { found: 0, missing: 0, extended: 0, weight: 0 });
+
+const tsvCell = (value: string | number) => String(value).replace(/[\t\r\n]+/g, ' ');
+
+// Plain numbers without currency symbols so the sheet it's pasted into can total them
+export const lookupToTSV = (rows: LookupRow[], tiers: PriceTier[], extendedTier: PriceTier): string => {
+  const header = ['SKU', 'Status', 'Description', 'Unit', 'Quantity', ...tiers, `Extended (${extendedTier})`, 'Weight (lbs)'];
+  const lines = rows.map(row => {
+    const { entry, variant } = row;
+    if (!variant) {
+      const note = row.status === 'discontinued' ? 'Discontinued' : 'Not found';
+      return [entry.sku, note, row.retired?.description || '', '', entry.quantity, ...tiers.map(() => ''), '', ''];
+    }
+    return [
+      variant.sku,
+      'OK',
+      variant.description,
+      variant.unit,
+      entry.quantity,
+      ...tiers.map(t => getTierPrice(variant, t).toFixed(2)),
+      (getTierPrice(variant, extendedTier) * entry.quantity).toFixed(2),
+      (variant.weight * entry.quantity).toFixed(2),
+    ];
+  });
+  return [header, ...lines].map(r => r.map(tsvCell).join('\t')).join('\n');
+};
@@ -0,0 +1,108 @@
+
+import { ContainerType, Packaging, PackagingSizeUnit, ProductVariant } from './types';
+
+export const LITERS_PER_GALLON = 3.78541;
+
+const GALLONS_PER: Record<PackagingSizeUnit, number | null> = {
+  gal: 1,
+  L: 1 / LITERS_PER_GALLON,
+  qt: 0.25,
+  oz: 1 / 128,
+  lb: null,
+};
+
+const SIZE_UNITS: Record<string, PackagingSizeUnit> = {
+  L: 'L', GL: 'gal', GAL: 'gal', QT: 'qt', OZ: 'oz', LB: 'lb',
+};
+
+const CONTAINER_FOR_UNIT: Record<PackagingSizeUnit, ContainerType> = {
+  gal: 'gallon', L: 'liter', qt: 'quart', oz: 'bottle', lb: 'bag',
+};
+
+// Drum codes give gallons first and liters second: "D20/D75" is a 20 gal / 75 L drum
+const DRUM = /\bD(\d+)(?:\s*\/\s*D?\s*\d+)?\s*$/i;
+// Totes: "T260" is a 260 gal tote
+const TOTE = /\bT(\d{3,})\s*$/i;
+// Explicit multipacks: "4X3L", "1x3L", "(4X5LB)"
+const MULTIPACK = /\(?\b(\d+)\s*X\s*(\d+(?:\.\d+)?)\s*(L|GL|GAL|QT|OZ|LB)\b\)?/i;
+// "EA1/3L": one 3-liter container
+const EACH_OF_SIZE = /\bEA(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*(L|GL|GAL|QT|OZ|LB)\s*$/i;
+// Trailing size codes where the number is a count of 1-unit containers: "GL4" = 4 gallons, "QT12" = 12 quarts
+const COUNT_OF_UNIT = /\b(GL|QT)\s*(\d+)\s*$/i;
+// Bags sold by weight: "LB50" = one 50 lb bag
+const BAG = /\bLB\s*(\d+)\s*$/i;
+// Plain counts: "CS24", "EA40", "DZ12", "PK10", "(PK4)"
+const COUNT = /\(?\b(EA|CS|DZ|PK|BX|CT)\s*(\d+)\)?\s*$/i;
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const build = (
+  containerType: ContainerType | null,
+  packCount: number,
+  containerSize: number | null,
+  sizeUnit: PackagingSizeUnit | null
+): Packaging => {
+  const perContainerGallons = containerSize !== null && sizeUnit ? GALLONS_PER[sizeUnit] : null;
+  const totalGallons = perContainerGallons !== null && containerSize !== null ? packCount * containerSize * perContainerGallons : null;
+  const totalPounds = sizeUnit === 'lb' && containerSize !== null ? packCount * containerSize : null;
+
+  let label = '';
+  if (containerType === 'drum' || containerType === 'pail' || containerType === 'tote') {
+    label = `${containerSize} gal ${containerType}`;
+  } else if (containerSize !== null && sizeUnit) {
+    label = packCount > 1 ? `${packCount} × ${containerSize} ${sizeUnit}` : `${containerSize} ${sizeUnit}`;
+  } else if (packCount > 1) {
+    label = pluralize(packCount, containerType === 'case' ? 'unit' : 'piece');
+  }
+
+  return { containerType, packCount, containerSize, sizeUnit, totalGallons, totalPounds, label };
+};
+
+// Extracts container type and size from the free-text description; the report's unit of measure (EA/CS/BC/PAK)
+// only says how the line is sold, not what is in it
+export const parsePackaging = (description: string, unit = ''): Packaging => {
+  const text = description.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(DRUM))) {
+    const gallons = parseInt(match[1], 10);
+    // D5 is a 5-gallon pail; anything larger ships in a drum
+    return build(gallons <= 6 ? 'pail' : 'drum', 1, gallons, 'gal');
+  }
+  if ((match = text.match(TOTE))) {
+    return build('tote', 1, parseInt(match[1], 10), 'gal');
+  }
+  if ((match = text.match(EACH_OF_SIZE)) || (match = text.match(MULTIPACK))) {
+    const sizeUnit = SIZE_UNITS[match[3].toUpperCase()];
+    return build(CONTAINER_FOR_UNIT[sizeUnit], parseInt(match[1], 10) || 1, parseFloat(match[2]), sizeUnit);
+  }
+  if ((match = text.match(COUNT_OF_UNIT))) {
+    const sizeUnit = SIZE_UNITS[match[1].toUpperCase()];
+    return build(CONTAINER_FOR_UNIT[sizeUnit], parseInt(match[2], 10) || 1, 1, sizeUnit);
+  }
+  if ((match = text.match(BAG))) {
+    return build('bag', 1, parseInt(match[1], 10), 'lb');
+  }
+  if ((match = text.match(COUNT))) {
+    const code = match[1].toUpperCase();
+    const count = parseInt(match[2], 10) || 1;
+    const type: ContainerType = code === 'PK' ? 'pack' : code === 'EA' && count === 1 ? 'each' : 'case';
+    return build(type, count, null, null);
+  }
+  return build(unit.toUpperCase() === 'EA' ? 'each' : null, 1, null, null);
+};
+
+// Sort key for the variant grid: smallest volume or weight first, then by count
+const packSizeKey = (p: Packaging) => p.totalGallons ?? p.totalPounds ?? p.packCount;
+
+export const sortByPackSize = <T extends ProductVariant>(variants: T[]): T[] =>
+  variants
+    .map((v, i) => ({ v, i }))
+    .sort((a, b) => packSizeKey(a.v.packaging) - packSizeKey(b.v.packaging) || a.i - b.i)
+    .map(({ v }) => v);
+
+export const pricePerGallon = (price: number, packaging: Packaging): number | null =>
+  packaging.totalGallons ? price / packaging.totalGallons : null;
+
+export const pricePerLiter = (price: number, packaging: Packaging): number | null =>
+  packaging.totalGallons ? price / (packaging.totalGallons * LITERS_PER_GALLON) : null;
@@ -0,0 +1,92 @@
+
+import { createContext, useContext } from 'react';
+import { AppView, CustomerAccount, PriceTier } from './types';
+
+export const PRESENTATION_STORAGE_KEY = 'state_chemical_presentation_v1';
+
+// Never shown to a customer, in any view or export
+export const INTERNAL_TIERS: PriceTier[] = [PriceTier.Floor, PriceTier.Give];
+
+// Views that are entirely internal: margin analytics, price-change history and contract editing
+const INTERNAL_VIEWS: AppView[] = ['analytics', 'history', 'customers'];
+
+export interface PricingVisibility {
+  presenting: boolean;
+  // Tiers that may be rendered, in display order
+  tiers: PriceTier[];
+  // Margins, Floor comparisons, info codes and anything else derived from internal prices
+  showInternal: boolean;
+}
+
+interface StoredPresentation {
+  active: boolean;
+  pinHash: string | null;
+}
+
+const ALL_TIERS = Object.values(PriceTier);
+
+export const INTERNAL_VISIBILITY: PricingVisibility = { presenting: false, tiers: ALL_TIERS, showInternal: true };
+
+// In presentation mode only Standard and the account's own tier (if it is public, e.g. GSA) are shown;
+// a contract price is still shown as the customer's price, just never labelled with an internal tier
+export const getPricingVisibility = (presenting: boolean, customer: CustomerAccount | null): PricingVisibility => {
+  if (!presenting) return INTERNAL_VISIBILITY;
+  const tiers = ALL_TIERS.filter(tier =>
+    tier === PriceTier.Standard || (customer?.defaultTier === tier && !INTERNAL_TIERS.includes(tier))
+  );
+  return { presenting: true, tiers, showInternal: false };
+};
+
+export const isTierVisible = (visibility: PricingVisibility, tier: PriceTier) => visibility.tiers.includes(tier);
+
+export const isViewVisible = (visibility: PricingVisibility, view: AppView) =>
+  visibility.showInternal || !INTERNAL_VIEWS.includes(view);
+
+export const PricingVisibilityContext = createContext<PricingVisibility>(INTERNAL_VISIBILITY);
+
+export const usePricingVisibility = () => useContext(PricingVisibilityContext);
+
+const loadStored = (): StoredPresentation => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESENTATION_STORAGE_KEY) || '{}');
+    return { active: parsed.active === true, pinHash: typeof parsed.pinHash === 'string' ? parsed.pinHash : null };
+  } catch {
+    return { active: false, pinHash: null };
+  }
+};
+
+const saveStored = (state: StoredPresentation) => {
+  localStorage.setItem(PRESENTATION_STORAGE_KEY, JSON.stringify(state));
+};
+
+// Survives reloads so refreshing the page is not a way out of presentation mode
+export const loadPresentationActive = () => loadStored().active;
+
+export const hasPresentationPin = () => loadStored().pinHash !== null;
+
+// crypto.subtle only exists in secure contexts, so it's missing when the app is opened over plain HTTP
+const hashPin = async (pin: string): Promise<string> => {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('PINs need a secure connection. Open the app over HTTPS or from localhost.');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`state-chemical:${pin}`));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+// Sets the PIN on first use; afterwards the stored PIN must be entered to start as well
+export const startPresentation = async (pin: string): Promise<boolean> => {
+  const stored = loadStored();
+  const hash = await hashPin(pin);
+  if (stored.pinHash && stored.pinHash !== hash) return false;
+  saveStored({ active: true, pinHash: hash });
+  return true;
+};
+
+export const stopPresentation = async (pin: string): Promise<boolean> => {
+  const stored = loadStored();
+  if (stored.pinHash && stored.pinHash !== await hashPin(pin)) return false;
+  saveStored({ ...stored, active: false });
+  return true;
+};
@@ -0,0 +1,218 @@
+
+import { ProductVariant, PriceTier, Quote, QuoteLine, CustomerAccount } from './types';
+import { getTierPrice, formatCurrency, toCSV } from './utils';
+import { EffectivePrice, resolveCustomerPrice } from './customers';
+import { PricingVisibility, INTERNAL_VISIBILITY, isTierVisible } from './presentation';
+import { STORES, getOne, put } from './db';
+
+// localStorage key from before the quote moved to IndexedDB; only read by the storage migration
+export const QUOTE_STORAGE_KEY = 'state_chemical_quote_v1';
+const QUOTE_RECORD_KEY = 'quote';
+
+export interface PricedQuoteLine {
+  line: QuoteLine;
+  variant: ProductVariant | null;
+  tier: PriceTier;
+  // Set when the line is priced from the active customer account rather than a tier
+  customerPrice: EffectivePrice | null;
+  unitPrice: number;
+  extended: number;
+  floorExtended: number;
+  margin: number;
+  weight: number;
+}
+
+export interface QuoteTotals {
+  lines: PricedQuoteLine[];
+  subtotal: number;
+  floorTotal: number;
+  margin: number;
+  marginPercent: number;
+  totalWeight: number;
+  totalUnits: number;
+  missingSkus: string[];
+}
+
+export const createEmptyQuote = (): Quote => ({
+  customerName: '',
+  tier: PriceTier.Standard,
+  lines: [],
+  updatedAt: new Date().toISOString(),
+});
+
+export const normalizeQuote = (stored: unknown): Quote => {
+  const parsed = stored as Quote | null;
+  if (!parsed || !Array.isArray(parsed.lines)) return createEmptyQuote();
+  return { ...createEmptyQuote(), ...parsed };
+};
+
+export const loadQuote = async (): Promise<Quote> =>
+  normalizeQuote(await getOne<Quote>(STORES.keyValue, QUOTE_RECORD_KEY));
+
+export const saveQuote = async (quote: Quote) => {
+  await put(STORES.keyValue, quote, QUOTE_RECORD_KEY);
+};
+
+// Adding a SKU that is already on the quote bumps its quantity instead of duplicating the line
+export const addQuoteLine = (quote: Quote, sku: string, quantity: number, tier?: PriceTier): Quote => {
+  const qty = Math.max(1, Math.floor(quantity) || 1);
+  const existing = quote.lines.find(l => l.sku === sku && l.tier === tier);
+  const lines = existing
+    ? quote.lines.map(l => (l === existing ? { ...l, quantity: l.quantity + qty } : l))
+    : [...quote.lines, { sku, quantity: qty, tier }];
+  return { ...quote, lines, updatedAt: new Date().toISOString() };
+};
+
+export const updateQuoteLine = (quote: Quote, index: number, patch: Partial<QuoteLine>): Quote => ({
+  ...quote,
+  lines: quote.lines.map((l, i) => (i === index ? { ...l, ...patch } : l)),
+  updatedAt: new Date().toISOString(),
+});
+
+export const removeQuoteLine = (quote: Quote, index: number): Quote => ({
+  ...quote,
+  lines: quote.lines.filter((_, i) => i !== index),
+  updatedAt: new Date().toISOString(),
+});
+
+// The tier the whole quote is priced at for this viewer; an internal tier falls back to Standard when presenting
+export const getVisibleQuoteTier = (quote: Quote, visibility: PricingVisibility = INTERNAL_VISIBILITY) =>
+  isTierVisible(visibility, quote.tier) ? quote.tier : PriceTier.Standard;
+
+// With a customer account, lines without a tier override use the account's contract pricing.
+// Hidden tier overrides are ignored, so the screen, CSV and printout never carry an internal price.
+export const priceQuoteItem = (
+  variant: ProductVariant,
+  lineTier: PriceTier | undefined,
+  quote: Quote,
+  customer: CustomerAccount | null = null,
+  visibility: PricingVisibility = INTERNAL_VISIBILITY
+): { tier: PriceTier; customerPrice: EffectivePrice | null; unitPrice: number } => {
+  const visibleTier = lineTier && isTierVisible(visibility, lineTier) ? lineTier : undefined;
+  const customerPrice = customer && !visibleTier ? resolveCustomerPrice(variant, customer) : null;
+  const tier = visibleTier || customerPrice?.tier || getVisibleQuoteTier(quote, visibility);
+  return { tier, customerPrice, unitPrice: customerPrice ? customerPrice.price : getTierPrice(variant, tier) };
+};
+
+export const calculateQuote = (
+  quote: Quote,
+  variants: Map<string, ProductVariant>,
+  customer: CustomerAccount | null = null,
+  visibility: PricingVisibility = INTERNAL_VISIBILITY
+): QuoteTotals => {
+  const lines = quote.lines.map((line): PricedQuoteLine => {
+    const variant = variants.get(line.sku) || null;
+    const { tier, customerPrice, unitPrice } = variant
+      ? priceQuoteItem(variant, line.tier, quote, customer, visibility)
+      : { tier: getVisibleQuoteTier(quote, visibility), customerPrice: null, unitPrice: 0 };
+    const extended = unitPrice * line.quantity;
+    const floorExtended = variant ? variant.floorPrice * line.quantity : 0;
+    return {
+      line,
+      variant,
+      tier,
+      customerPrice,
+      unitPrice,
+      extended,
+      floorExtended,
+      margin: extended - floorExtended,
+      weight: variant ? variant.weight * line.quantity : 0,
+    };
+  });
+
+  const subtotal = lines.reduce((sum, l) => sum + l.extended, 0);
+  const floorTotal = lines.reduce((sum, l) => sum + l.floorExtended, 0);
+  const margin = subtotal - floorTotal;
+
+  return {
+    lines,
+    subtotal,
+    floorTotal,
+    margin,
+    marginPercent: subtotal > 0 ? (margin / subtotal) * 100 : 0,
+    totalWeight: lines.reduce((sum, l) => sum + l.weight, 0),
+    totalUnits: lines.reduce((sum, l) => sum + l.line.quantity, 0),
+    missingSkus: lines.filter(l => !l.variant).map(l => l.line.sku),
+  };
+};
+
+// Tier names are only written out when the viewer is allowed to see that tier
+export const quoteToCSV = (quote: Quote, totals: QuoteTotals, visibility: PricingVisibility = INTERNAL_VISIBILITY): string => {
+  const rows: (string | number)[][] = [
+    ['SKU', 'Description', 'Unit', 'Quantity', 'Tier', 'Unit Price', 'Extended', 'Weight (lbs)'],
+    ...totals.lines.map(l => [
+      l.line.sku,
+      l.variant?.description || 'NOT IN CATALOG',
+      l.variant?.unit || '',
+      l.line.quantity,
+      l.customerPrice && l.customerPrice.source !== 'tier' ? 'Contract' : isTierVisible(visibility, l.tier) ? l.tier : 'Quoted',
+      l.unitPrice.toFixed(2),
+      l.extended.toFixed(2),
+      l.weight.toFixed(3),
+    ]),
+    [],
+    ['', '', '', totals.totalUnits, '', 'Total', totals.subtotal.toFixed(2), totals.totalWeight.toFixed(3)],
+  ];
+  return toCSV(rows);
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const quoteToPrintableHTML = (quote: Quote, totals: QuoteTotals): string => {
+  const date = new Date(quote.updatedAt).toLocaleDateString('en-US');
+  const rows = totals.lines.map(l => `
+        <tr>
+          <td class="mono">${escapeHtml(l.line.sku)}</td>
+          <td>${escapeHtml(l.variant?.description || 'NOT IN CATALOG')}</td>
+          <td>${escapeHtml(l.variant?.unit || '')}</td>
+          <td class="num">${l.line.quantity}</td>
+          <td class="num">${formatCurrency(l.unitPrice)}</td>
+          <td class="num">${formatCurrency(l.extended)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Quote${quote.customerName ? ` - ${escapeHtml(quote.customerName)}` : ''}</title>
+  <style>
+    body { font-family: 'Helvetica Neue', Arial, sans-serif; color: #0f172a; margin: 40px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .meta { color: #64748b; font-size: 12px; margin-bottom: 24px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th { text-align: left; border-bottom: 2px solid #0f172a; padding: 6px 4px; text-transform: uppercase; font-size: 10px; letter-spacing: 0.05em; }
+    td { border-bottom: 1px solid #e2e8f0; padding: 6px 4px; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    .mono { font-family: monospace; }
+    tfoot td { font-weight: bold; border-bottom: none; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>State Chemical Solutions &mdash; Quote</h1>
+  <div class="meta">
+    ${quote.customerName ? `Prepared for ${escapeHtml(quote.customerName)} &bull; ` : ''}${date} &bull; ${totals.totalUnits} units &bull; ${totals.totalWeight.toFixed(1)} lbs shipping weight
+  </div>
+  <table>
+    <thead>
+      <tr><th>SKU</th><th>Description</th><th>Unit</th><th class="num">Qty</th><th class="num">Unit Price</th><th class="num">Extended</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="5" class="num">Total</td><td class="num">${formatCurrency(totals.subtotal)}</td></tr>
+    </tfoot>
+  </table>
+</body>
+</html>`;
+};
+
+export const printQuote = (quote: Quote, totals: QuoteTotals) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(quoteToPrintableHTML(quote, totals));
+  win.document.close();
+  win.focus();
+  win.print();
+};
@@ -0,0 +1,85 @@
+
+import { AppView, PriceTier } from './types';
+import { CatalogFilters, createEmptyFilters } from './filters';
+
+export interface AppRoute {
+  view: AppView;
+  product: string | null;
+  sku: string | null;
+  search: string;
+  filters: CatalogFilters;
+}
+
+const VIEWS: AppView[] = ['catalog', 'quote', 'history', 'compare', 'analytics', 'customers', 'lookup'];
+
+// Short parameter names keep shared links readable: ?product=BT-64&sku=113295&line=WATER+TREATMENT
+const LIST_PARAMS = {
+  productLines: 'line',
+  families: 'family',
+  units: 'unit',
+  dotClasses: 'dot',
+  classifications: 'class',
+} as const;
+
+const RANGE_PARAMS = {
+  priceMin: 'pmin',
+  priceMax: 'pmax',
+  weightMin: 'wmin',
+  weightMax: 'wmax',
+} as const;
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value === '') return null;
+  const num = parseFloat(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+export const parseRoute = (search: string): AppRoute => {
+  const params = new URLSearchParams(search);
+  const view = params.get('view') as AppView | null;
+  const tier = params.get('tier') as PriceTier | null;
+  const filters = createEmptyFilters();
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach(key => {
+    filters[key] = params.getAll(LIST_PARAMS[key]);
+  });
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach(key => {
+    filters[key] = parseNumber(params.get(RANGE_PARAMS[key]));
+  });
+  if (tier && Object.values(PriceTier).includes(tier)) filters.priceTier = tier;
+
+  return {
+    view: view && VIEWS.includes(view) ? view : 'catalog',
+    product: params.get('product'),
+    sku: params.get('sku'),
+    search: params.get('q') || '',
+    filters,
+  };
+};
+
+// Parameters are always written in the same order so equal routes produce equal URLs
+export const serializeRoute = (route: AppRoute): string => {
+  const params = new URLSearchParams();
+  if (route.view !== 'catalog') params.set('view', route.view);
+  if (route.product) params.set('product', route.product);
+  if (route.product && route.sku) params.set('sku', route.sku);
+  if (route.search.trim()) params.set('q', route.search);
+
+  (Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]).forEach(key => {
+    route.filters[key].forEach(value => params.append(LIST_PARAMS[key], value));
+  });
+  const hasRange = (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).some(key => route.filters[key] !== null);
+  (Object.keys(RANGE_PARAMS) as (keyof typeof RANGE_PARAMS)[]).forEach(key => {
+    const value = route.filters[key];
+    if (value !== null) params.set(RANGE_PARAMS[key], String(value));
+  });
+  if (hasRange && route.filters.priceTier !== PriceTier.Standard) params.set('tier', route.filters.priceTier);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Moving between products, SKUs or views is a navigation the back button should undo;
+// typing in the search box or adjusting filters only updates the current entry
+export const isNavigation = (from: AppRoute, to: AppRoute) =>
+  from.view !== to.view || from.product !== to.product || from.sku !== to.sku;
@@ -0,0 +1,193 @@
+
+import { ProductGroup } from './types';
+
+export interface SearchResult {
+  group: ProductGroup;
+  score: number;
+  // Variant that best matched the query, so the detail view can open on it
+  matchedVariantIdx: number;
+  // Normalized document tokens that satisfied the query, used for highlighting
+  matchedTerms: string[];
+}
+
+interface IndexedVariant {
+  tokens: string[];
+  compactSku: string;
+  compactText: string;
+}
+
+interface IndexedGroup {
+  group: ProductGroup;
+  tokens: string[];
+  compactName: string;
+  variants: IndexedVariant[];
+}
+
+export interface SearchIndex {
+  groups: IndexedGroup[];
+}
+
+// Common spellings reps type versus the abbreviations used in the pricing report
+const SYNONYMS: Record<string, string[]> = {
+  gallon: ['gl', 'gal'],
+  gallons: ['gl', 'gal'],
+  gal: ['gl'],
+  quart: ['qt'],
+  quarts: ['qt'],
+  case: ['cs'],
+  cases: ['cs'],
+  each: ['ea'],
+  pack: ['pk', 'pak'],
+  drum: ['d55', 'd15', 'd5', 'd20'],
+  bottle: ['btl', 'btle'],
+  liter: ['l'],
+};
+
+const SCORE = {
+  exact: 10,
+  prefix: 6,
+  compact: 5,
+  substring: 3,
+  fuzzy: 2,
+  skuExact: 1000,
+  skuPrefix: 200,
+  nameExact: 300,
+};
+
+// Lowercases and turns punctuation and runs of padding into single spaces: "BT-64  BWT" -> "bt 64 bwt"
+export const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Drops all separators so "bt64", "BT 64" and "BT-64" compare equal
+export const compactText = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const tokenize = (text: string) => {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+};
+
+// Levenshtein distance with an early exit once `max` is exceeded
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+const allowedTypos = (token: string) => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+export const buildSearchIndex = (groups: ProductGroup[]): SearchIndex => ({
+  groups: groups.map(group => ({
+    group,
+    tokens: Array.from(new Set([
+      ...tokenize(group.parentName),
+      ...tokenize(group.family),
+      ...tokenize(group.productLine),
+    ])),
+    compactName: compactText(group.parentName),
+    variants: group.variants.map(v => ({
+      tokens: Array.from(new Set([...tokenize(v.sku), ...tokenize(v.description)])),
+      compactSku: compactText(v.sku),
+      compactText: compactText(v.description),
+    })),
+  })),
+});
+
+interface TokenMatch {
+  score: number;
+  term: string;
+}
+
+const matchToken = (query: string, docTokens: string[], compacts: string[]): TokenMatch | null => {
+  const candidates = [query, ...(SYNONYMS[query] || [])];
+  let best: TokenMatch | null = null;
+
+  for (const candidate of candidates) {
+    for (const token of docTokens) {
+      let score = 0;
+      if (token === candidate) score = SCORE.exact;
+      else if (token.startsWith(candidate)) score = SCORE.prefix;
+      else if (candidate.length >= 3 && token.includes(candidate)) score = SCORE.substring;
+      if (score > (best?.score ?? 0)) best = { score, term: score === SCORE.substring ? candidate : token };
+    }
+  }
+  if (best) return best;
+
+  // "bt64" against "BT-64": match once separators are removed
+  if (query.length >= 3 && compacts.some(c => c.includes(query))) return { score: SCORE.compact, term: query };
+
+  const typos = allowedTypos(query);
+  if (typos > 0) {
+    const close = docTokens.find(token => token.length >= 3 && editDistance(query, token, typos) <= typos);
+    if (close) return { score: SCORE.fuzzy, term: close };
+  }
+  return null;
+};
+
+export const searchCatalog = (index: SearchIndex, query: string): SearchResult[] => {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+  const compactQuery = compactText(query);
+
+  const results: SearchResult[] = [];
+
+  for (const entry of index.groups) {
+    let bestScore = -1;
+    let bestIdx = 0;
+    let bestTerms: string[] = [];
+
+    entry.variants.forEach((variant, idx) => {
+      const docTokens = [...entry.tokens, ...variant.tokens];
+      const compacts = [entry.compactName, variant.compactSku, variant.compactText];
+      let score = 0;
+      const terms: string[] = [];
+
+      for (const q of queryTokens) {
+        const match = matchToken(q, docTokens, compacts);
+        if (!match) return;
+        score += match.score;
+        terms.push(match.term);
+      }
+
+      if (variant.compactSku === compactQuery) {
+        score += SCORE.skuExact;
+        terms.push(variant.compactSku);
+      } else if (compactQuery.length >= 2 && variant.compactSku.startsWith(compactQuery)) {
+        score += SCORE.skuPrefix;
+      }
+      if (entry.compactName === compactQuery) score += SCORE.nameExact;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestIdx = idx;
+        bestTerms = terms;
+      }
+    });
+
+    if (bestScore >= 0) {
+      results.push({ group: entry.group, score: bestScore, matchedVariantIdx: bestIdx, matchedTerms: bestTerms });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score || a.group.parentName.localeCompare(b.group.parentName));
+};
+
+// Lets a normalized term match its original spelling with any punctuation or padding in between
+export const buildHighlightPattern = (terms: string[]): RegExp | null => {
+  const unique = Array.from(new Set(terms.filter(Boolean))).sort((a, b) => b.length - a.length);
+  if (unique.length === 0) return null;
+  const parts = unique.map(term =>
+    term.split('').map(ch => ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('[^a-z0-9]*')
+  );
+  return new RegExp(`(${parts.join('|')})`, 'gi');
+};
@@ -0,0 +1,155 @@
+
+import { ImportIssue, ProductClassification, ProductGroup, ProductVariant, ReportTable } from './types';
+import { COLUMN_DEFINITIONS, ColumnKey, getLayoutSignature, normalizeHeader } from './columns';
+
+export interface ReportSectionDefinition {
+  // Normalized prefix of the first header cell that starts the section
+  key: string;
+  label: string;
+}
+
+// Tables the report appends below the product rows. Each starts at its own header row and runs until the
+// next one; adding a section type here is enough for it to be split out and kept.
+export const REPORT_SECTIONS: ReportSectionDefinition[] = [
+  { key: 'scsclass', label: 'SCSClass' },
+];
+
+export const CLASSIFICATION_SECTION = 'scsclass';
+
+export const UNCLASSIFIED = 'Unclassified';
+
+export const findReportSection = (cells: string[]): ReportSectionDefinition | null => {
+  const first = normalizeHeader(cells[0] || '');
+  return first ? REPORT_SECTIONS.find(s => first.startsWith(s.key)) || null : null;
+};
+
+export const isSectionHeader = (cells: string[]) => findReportSection(cells) !== null;
+
+// `rows` starts at a section header; repeated header rows inside a section are skipped
+export const splitReportSections = (rows: { lineNumber: number; parts: string[] }[]): ReportTable[] => {
+  const sections: ReportTable[] = [];
+  let current: ReportTable | null = null;
+  let signature = '';
+  rows.forEach(({ lineNumber, parts }) => {
+    const definition = findReportSection(parts);
+    if (definition) {
+      const layout = getLayoutSignature(parts);
+      if (current && current.key === definition.key && layout === signature) return;
+      current = { key: definition.key, label: definition.label, lineNumber, header: parts, rows: [] };
+      signature = layout;
+      sections.push(current);
+      return;
+    }
+    current?.rows.push({ lineNumber, cells: parts });
+  });
+  return sections;
+};
+
+export const classificationLabel = (classification: ProductClassification | null) => {
+  if (!classification) return UNCLASSIFIED;
+  return classification.description ? `${classification.code} · ${classification.description}` : classification.code;
+};
+
+const aliasesFor = (key: ColumnKey) => COLUMN_DEFINITIONS.find(d => d.key === key)?.aliases || [];
+
+// The class table links rows to products by SKU, parent or family, whichever column it carries.
+// A table with only codes and descriptions is a lookup for products that carry an SCSClass column.
+const CLASSIFICATION_COLUMNS = {
+  code: ['scsclass', 'classcode', 'class'],
+  description: ['scsclassdescription', 'classdescription', 'description', 'scsclassdesc'],
+  sku: aliasesFor('sku'),
+  parentName: aliasesFor('parentName'),
+  family: aliasesFor('family'),
+};
+
+type LinkScope = 'sku' | 'parentName' | 'family' | 'code';
+
+interface ClassificationRow extends ProductClassification {
+  lineNumber: number;
+  scope: LinkScope;
+  target: string;
+}
+
+const parseClassificationRows = (table: ReportTable): ClassificationRow[] => {
+  const normalized = table.header.map(normalizeHeader);
+  const findColumn = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const idx = normalized.indexOf(alias);
+      if (idx !== -1) return idx;
+    }
+    return -1;
+  };
+  // The section's first header cell is the class code itself when no column is named for it
+  const codeIdx = Math.max(0, findColumn(CLASSIFICATION_COLUMNS.code));
+  const descriptionIdx = findColumn(CLASSIFICATION_COLUMNS.description);
+  const links = (['sku', 'parentName', 'family'] as const)
+    .map(scope => ({ scope, idx: findColumn(CLASSIFICATION_COLUMNS[scope]) }))
+    .filter(l => l.idx !== -1);
+
+  return table.rows.flatMap(({ lineNumber, cells }) => {
+    const code = (cells[codeIdx] || '').trim();
+    if (!code) return [];
+    const description = descriptionIdx === -1 ? '' : (cells[descriptionIdx] || '').trim();
+    const link = links.find(l => (cells[l.idx] || '').trim());
+    return [{
+      lineNumber,
+      code,
+      description,
+      scope: link ? link.scope : 'code',
+      target: link ? cells[link.idx].trim() : code,
+    }];
+  });
+};
+
+// Most specific link wins: SKU, then parent, then family, then the product's own SCSClass code
+export const linkClassifications = (groups: ProductGroup[], tables: ReportTable[], issues: ImportIssue[]): number => {
+  const rows = tables.flatMap(parseClassificationRows);
+  const byScope: Record<LinkScope, Map<string, ClassificationRow>> = {
+    sku: new Map(), parentName: new Map(), family: new Map(), code: new Map(),
+  };
+  rows.forEach(row => {
+    const key = row.scope === 'sku' ? row.target : row.target.toUpperCase();
+    if (byScope[row.scope].has(key)) {
+      issues.push({ lineNumber: row.lineNumber, sku: row.scope === 'sku' ? row.target : '', severity: 'warning', reason: `Duplicate SCSClass entry for "${row.target}" ignored` });
+      return;
+    }
+    byScope[row.scope].set(key, row);
+  });
+
+  const descriptions = new Map<string, string>();
+  rows.forEach(row => {
+    if (row.description && !descriptions.has(row.code.toUpperCase())) descriptions.set(row.code.toUpperCase(), row.description);
+  });
+
+  const used = new Set<ClassificationRow>();
+  const lookup = (variant: ProductVariant, parentName: string): ClassificationRow | undefined =>
+    byScope.sku.get(variant.sku)
+    || byScope.parentName.get(parentName.toUpperCase())
+    || byScope.family.get(variant.family.toUpperCase())
+    || (variant.classification ? byScope.code.get(variant.classification.code.toUpperCase()) : undefined);
+
+  let classified = 0;
+  groups.forEach(group => group.variants.forEach(variant => {
+    const row = lookup(variant, group.parentName);
+    if (row) {
+      used.add(row);
+      variant.classification = { code: row.code, description: row.description || descriptions.get(row.code.toUpperCase()) || '' };
+    } else if (variant.classification && !variant.classification.description) {
+      variant.classification = { ...variant.classification, description: descriptions.get(variant.classification.code.toUpperCase()) || '' };
+    }
+    if (variant.classification) classified++;
+  }));
+
+  rows.forEach(row => {
+    if (used.has(row) || row.scope === 'code') return;
+    const what = row.scope === 'sku' ? 'SKU' : row.scope === 'parentName' ? 'parent product' : 'family';
+    issues.push({
+      lineNumber: row.lineNumber,
+      sku: row.scope === 'sku' ? row.target : '',
+      severity: 'warning',
+      reason: `SCSClass row for unknown ${what} "${row.target}"`,
+    });
+  });
+
+  return classified;
+};
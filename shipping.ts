@@ -0,0 +1,123 @@
+
+import { ProductVariant } from './types';
+import { isHazmat } from './utils';
+
+export const FREIGHT_RATES_STORAGE_KEY = 'state_chemical_freight_rates_v1';
+
+// Report weights at or below this are placeholders, not real gross weights
+const PLACEHOLDER_WEIGHT = 0.01;
+
+export interface FreightRateTable {
+  zones: string[];
+  // Lower bound of each weight break in lbs, ascending; the first is normally 0
+  weightBreaks: number[];
+  // ratesPerCwt[break][zone]: dollars per 100 lbs
+  ratesPerCwt: number[][];
+  minimumCharge: number;
+  // Flat fee added once per shipment that contains any DOT-regulated line
+  hazmatFee: number;
+}
+
+export interface ShipmentLine {
+  variant: ProductVariant;
+  quantity: number;
+}
+
+export interface ShipmentEstimate {
+  totalWeight: number;
+  lineCount: number;
+  hazmatLines: number;
+  hazmatWeight: number;
+  dotClasses: string[];
+  groundOnly: boolean;
+  // SKUs whose report weight is a placeholder, so the total is understated
+  unknownWeightSkus: string[];
+  breakIndex: number;
+  ratePerCwt: number;
+  freight: number;
+  minimumApplied: boolean;
+}
+
+// Sample LTL-style rates so the estimator works out of the box; replace with the local carrier's table
+export const DEFAULT_FREIGHT_RATES: FreightRateTable = {
+  zones: ['Local', 'Zone 2', 'Zone 3', 'Zone 4', 'Zone 5'],
+  weightBreaks: [0, 500, 1000, 2000, 5000],
+  ratesPerCwt: [
+    [28, 34, 41, 49, 58],
+    [22, 27, 33, 40, 47],
+    [18, 22, 27, 33, 39],
+    [14, 17, 21, 26, 31],
+    [11, 14, 17, 21, 25],
+  ],
+  minimumCharge: 95,
+  hazmatFee: 35,
+};
+
+const isValidTable = (table: FreightRateTable) =>
+  Array.isArray(table?.zones) && table.zones.length > 0
+  && Array.isArray(table.weightBreaks) && table.weightBreaks.length > 0
+  && Array.isArray(table.ratesPerCwt) && table.ratesPerCwt.length === table.weightBreaks.length
+  && table.ratesPerCwt.every(row => Array.isArray(row) && row.length === table.zones.length);
+
+export const loadFreightRates = (): FreightRateTable => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(FREIGHT_RATES_STORAGE_KEY) || 'null');
+    return parsed && isValidTable(parsed) ? { ...DEFAULT_FREIGHT_RATES, ...parsed } : DEFAULT_FREIGHT_RATES;
+  } catch {
+    return DEFAULT_FREIGHT_RATES;
+  }
+};
+
+export const saveFreightRates = (table: FreightRateTable) => {
+  localStorage.setItem(FREIGHT_RATES_STORAGE_KEY, JSON.stringify(table));
+};
+
+// Highest break whose lower bound the weight reaches
+export const findWeightBreak = (table: FreightRateTable, weight: number) => {
+  let index = 0;
+  table.weightBreaks.forEach((lower, i) => { if (weight >= lower) index = i; });
+  return index;
+};
+
+// Any DOT-regulated line keeps the whole shipment off air freight
+export const estimateShipment = (lines: ShipmentLine[], table: FreightRateTable, zoneIndex: number): ShipmentEstimate => {
+  let totalWeight = 0;
+  let hazmatWeight = 0;
+  let hazmatLines = 0;
+  const dotClasses = new Set<string>();
+  const unknownWeightSkus: string[] = [];
+
+  lines.forEach(({ variant, quantity }) => {
+    const weight = variant.weight * quantity;
+    totalWeight += weight;
+    if (variant.weight <= PLACEHOLDER_WEIGHT) unknownWeightSkus.push(variant.sku);
+    if (isHazmat(variant)) {
+      hazmatLines++;
+      hazmatWeight += weight;
+      dotClasses.add(variant.dotClass);
+    }
+  });
+
+  const zone = Math.min(Math.max(zoneIndex, 0), table.zones.length - 1);
+  const breakIndex = findWeightBreak(table, totalWeight);
+  const ratePerCwt = table.ratesPerCwt[breakIndex]?.[zone] ?? 0;
+  const linehaul = (totalWeight / 100) * ratePerCwt;
+  const minimumApplied = lines.length > 0 && linehaul < table.minimumCharge;
+  const freight = lines.length === 0
+    ? 0
+    : Math.max(linehaul, table.minimumCharge) + (hazmatLines > 0 ? table.hazmatFee : 0);
+
+  return {
+    totalWeight,
+    lineCount: lines.length,
+    hazmatLines,
+    hazmatWeight,
+    dotClasses: Array.from(dotClasses).sort(),
+    groundOnly: hazmatLines > 0,
+    unknownWeightSkus,
+    breakIndex,
+    ratePerCwt,
+    freight,
+    minimumApplied,
+  };
+};
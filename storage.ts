@@ -0,0 +1,109 @@
+
+import { Quote } from './types';
+import { STORES, getOne, put, remove } from './db';
+import { addCatalogVersion, listCatalogVersions } from './history';
+import { QUOTE_STORAGE_KEY, createEmptyQuote, loadQuote, normalizeQuote, saveQuote } from './quote';
+import { buildVariantIndex } from './utils';
+import type { CatalogParser } from './catalogWorker';
+
+// localStorage key the catalog CSV lived under before it moved to IndexedDB
+export const LEGACY_CATALOG_STORAGE_KEY = 'state_chemical_catalog_v2';
+const CATALOG_RECORD_KEY = 'catalog';
+
+export interface StoredState {
+  csv: string | null;
+  quote: Quote;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  // Persistent storage is exempt from the browser's eviction under disk pressure
+  persisted: boolean;
+}
+
+export const loadCatalog = async (): Promise<string | null> =>
+  (await getOne<string>(STORES.keyValue, CATALOG_RECORD_KEY)) ?? null;
+
+export const saveCatalog = async (csv: string) => {
+  await put(STORES.keyValue, csv, CATALOG_RECORD_KEY);
+};
+
+export const clearCatalog = () => remove(STORES.keyValue, CATALOG_RECORD_KEY);
+
+const readLegacyQuote = (): Quote | null => {
+  const stored = localStorage.getItem(QUOTE_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return normalizeQuote(JSON.parse(stored));
+  } catch {
+    return createEmptyQuote();
+  }
+};
+
+// Moves the catalog and quote out of localStorage. The legacy keys are only removed once IndexedDB holds
+// the data; a catalog stored before history existed also becomes the first version to diff against.
+const migrateLegacyStorage = async (parse: CatalogParser) => {
+  const legacyCsv = localStorage.getItem(LEGACY_CATALOG_STORAGE_KEY);
+  const legacyQuote = readLegacyQuote();
+
+  if (legacyCsv) {
+    if (!(await loadCatalog())) await saveCatalog(legacyCsv);
+    const versions = await listCatalogVersions();
+    if (versions.length === 0) {
+      const groups = await parse(legacyCsv);
+      await addCatalogVersion({
+        fileName: 'Stored catalog',
+        uploadedAt: new Date().toISOString(),
+        csv: legacyCsv,
+        productCount: groups.length,
+        skuCount: buildVariantIndex(groups).size,
+      });
+    }
+    localStorage.removeItem(LEGACY_CATALOG_STORAGE_KEY);
+  }
+
+  if (legacyQuote) {
+    await saveQuote(legacyQuote);
+    localStorage.removeItem(QUOTE_STORAGE_KEY);
+  }
+};
+
+// Without IndexedDB (some private windows) the legacy copy is still served so nothing looks lost
+export const loadStoredState = async (parse: CatalogParser): Promise<StoredState> => {
+  try {
+    await migrateLegacyStorage(parse);
+    const [csv, quote] = await Promise.all([loadCatalog(), loadQuote()]);
+    return { csv, quote };
+  } catch {
+    return { csv: localStorage.getItem(LEGACY_CATALOG_STORAGE_KEY), quote: readLegacyQuote() || createEmptyQuote() };
+  }
+};
+
+// Asks the browser not to evict the catalog; granted silently for installed apps in most browsers
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
@@ -10,17 +10,151 @@ export interface ProductVariant {
   weight: number;
   productLine: string;
   family: string;
+  discountPercent: number;
+  quantityCode: string;
+  dotClass: string;
+  productInformationCode: string;
+  location: string;
+  accessories: string[];
+  // Container and pack size parsed from the description
+  packaging: Packaging;
+  // From the report's SCSClass section (or an SCSClass column); null when the product isn't classified
+  classification: ProductClassification | null;
+}
+
+export interface ProductClassification {
+  code: string;
+  description: string;
+}
+
+export type ContainerType = 'tote' | 'drum' | 'pail' | 'gallon' | 'quart' | 'liter' | 'bottle' | 'bag' | 'case' | 'pack' | 'each';
+
+export type PackagingSizeUnit = 'gal' | 'L' | 'qt' | 'oz' | 'lb';
+
+export interface Packaging {
+  containerType: ContainerType | null;
+  // Containers per selling unit, e.g. 4 for "GL4" or "4X3L"
+  packCount: number;
+  // Size of one container; null when the description only gives a count
+  containerSize: number | null;
+  sizeUnit: PackagingSizeUnit | null;
+  // Liquid volume of the whole selling unit; null for dry goods and count-only packs
+  totalGallons: number | null;
+  totalPounds: number | null;
+  label: string;
 }
 
 export interface ProductGroup {
+  // Product line + family + parent name; the parent name alone isn't unique
+  id: string;
+  productLine: string;
   parentName: string;
   family: string;
   variants: ProductVariant[];
 }
 
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportIssue {
+  // 1-based line in the uploaded file
+  lineNumber: number;
+  // Last line of the record when a quoted cell spans several lines
+  endLineNumber?: number;
+  sku: string;
+  severity: ImportIssueSeverity;
+  reason: string;
+}
+
+// A secondary table appended below the product rows, kept as raw cells
+export interface ReportTable {
+  // Normalized first header cell that identifies the section, e.g. "scsclass"
+  key: string;
+  label: string;
+  // 1-based line of the table's header row
+  lineNumber: number;
+  header: string[];
+  rows: { lineNumber: number; cells: string[] }[];
+}
+
+export interface ImportResult {
+  groups: ProductGroup[];
+  issues: ImportIssue[];
+  rowCount: number;
+  skuCount: number;
+  // Every section found after the product rows, in file order
+  sections: ReportTable[];
+  classifiedSkuCount: number;
+}
+
 export enum PriceTier {
   Standard = 'Standard',
   Floor = 'Floor',
   Give = 'Give',
   GSA = 'GSA'
 }
+
+export type AppView = 'catalog' | 'quote' | 'history' | 'compare' | 'analytics' | 'customers' | 'lookup';
+
+export interface QuoteLine {
+  sku: string;
+  quantity: number;
+  // Per-line override; falls back to the quote's tier when unset
+  tier?: PriceTier;
+}
+
+export interface Quote {
+  customerName: string;
+  tier: PriceTier;
+  lines: QuoteLine[];
+  updatedAt: string;
+}
+
+export interface CatalogVersion {
+  id?: number;
+  fileName: string;
+  uploadedAt: string;
+  csv: string;
+  productCount: number;
+  skuCount: number;
+}
+
+export interface TierPriceChange {
+  tier: PriceTier;
+  from: number;
+  to: number;
+  delta: number;
+  // null when the previous price was $0.00
+  percent: number | null;
+}
+
+export interface VariantPriceChange {
+  before: ProductVariant;
+  after: ProductVariant;
+  changes: TierPriceChange[];
+}
+
+export interface CatalogDiff {
+  added: ProductVariant[];
+  removed: ProductVariant[];
+  changed: VariantPriceChange[];
+}
+
+export type ContractRuleScope = 'sku' | 'family';
+
+// 'price' is a fixed contract price; 'percentOff' is a discount off Standard, e.g. 15 = 15% off
+export type ContractRuleKind = 'price' | 'percentOff';
+
+export interface ContractRule {
+  scope: ContractRuleScope;
+  // SKU or product family the rule applies to
+  target: string;
+  kind: ContractRuleKind;
+  value: number;
+}
+
+export interface CustomerAccount {
+  id: string;
+  name: string;
+  defaultTier: PriceTier;
+  rules: ContractRule[];
+}
@@ -1,88 +1,235 @@
 
-import { ProductVariant, ProductGroup } from './types';
+import { ProductVariant, ProductGroup, PriceTier, ImportIssue, ImportIssueSeverity, ImportResult } from './types';
+import { ColumnKey, ColumnMapping, COLUMN_DEFINITIONS, getLayoutSignature, getMissingColumns, resolveColumnMapping, reconcileInfoCodeColumn } from './columns';
+import { parsePackaging } from './packaging';
+import { readCSVRecords } from './csv';
+import { formatGroupPath, groupKey } from './hierarchy';
+import { CLASSIFICATION_SECTION, isSectionHeader, linkClassifications, splitReportSections } from './sections';
 
-export const parseCSV = (csv: string): ProductGroup[] => {
-  if (!csv) return [];
+// Accessory codes arrive as a single quoted, comma-separated cell with padding, e.g. "A3 ,A17,A2 "
+export const parseAccessories = (value: string | undefined): string[] => {
+  if (!value) return [];
+  return value.split(',').map(code => code.trim()).filter(Boolean);
+};
+
+export const isHazmat = (variant: ProductVariant) => variant.dotClass.trim().length > 0;
+
+// Cells of the first `count` records, e.g. the header and a sample row for column mapping
+export const readCSVRows = (csv: string, count: number): string[][] => {
+  const rows: string[][] = [];
+  if (count <= 0) return rows;
+  for (const record of readCSVRecords(csv)) {
+    rows.push(record.cells);
+    if (rows.length === count) break;
+  }
+  return rows;
+};
+
+const PROGRESS_INTERVAL = 2000;
+
+const EMPTY_IMPORT: ImportResult = { groups: [], issues: [], rowCount: 0, skuCount: 0, sections: [], classifiedSkuCount: 0 };
+
+// Parses the report and collects every row-level problem instead of silently dropping it.
+// Rows with errors are left out of the catalog; rows with warnings are kept.
+// onProgress is called every PROGRESS_INTERVAL records with the characters read so far.
+export const importCatalog = (
+  csv: string,
+  columnMapping?: ColumnMapping,
+  onProgress?: (done: number, total: number) => void
+): ImportResult => {
+  if (!csv) return EMPTY_IMPORT;
   
-  // Normalize line endings and split
-  const lines = csv.trim().split(/\r?\n/);
-  if (lines.length < 2) return [];
-
-  const parseLine = (line: string) => {
-    const result = [];
-    let cur = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          cur += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        result.push(cur.trim());
-        cur = '';
-      } else {
-        cur += char;
-      }
+  const records = readCSVRecords(csv);
+  const first = records.next();
+  if (first.done) return EMPTY_IMPORT;
+
+  const header = first.value.cells;
+  const headerLine = first.value.startLine;
+  const headerSignature = getLayoutSignature(header);
+  const rows: { lineNumber: number; endLineNumber: number; parts: string[] }[] = [];
+  // The first section header (SCSClass...) ends the product rows; everything after it is split by section
+  const sectionRows: { lineNumber: number; parts: string[] }[] = [];
+  const quoteIssues: ImportIssue[] = [];
+
+  let recordCount = 0;
+  for (const { cells: parts, startLine, endLine, end, unclosedQuote } of records) {
+    if (onProgress && ++recordCount % PROGRESS_INTERVAL === 0) onProgress(end, csv.length);
+    if (unclosedQuote) {
+      quoteIssues.push({
+        lineNumber: startLine,
+        endLineNumber: endLine,
+        sku: '',
+        severity: 'error',
+        reason: `Quoted cell opened on line ${startLine} is never closed; the rest of the file was skipped`
+      });
+      continue;
+    }
+    if (sectionRows.length > 0 || isSectionHeader(parts)) {
+      sectionRows.push({ lineNumber: startLine, parts });
+      continue;
     }
-    result.push(cur.trim());
-    return result;
+    // Skip repeated header rows from concatenated exports
+    if (getLayoutSignature(parts) === headerSignature) continue;
+    rows.push({ lineNumber: startLine, endLineNumber: endLine, parts });
+  }
+
+  const issues: ImportIssue[] = [...quoteIssues];
+  const sections = splitReportSections(sectionRows);
+  const mapping = reconcileInfoCodeColumn(columnMapping || resolveColumnMapping(header), rows.map(r => r.parts));
+  const missingColumns = getMissingColumns(mapping);
+  if (missingColumns.length > 0) {
+    issues.push({
+      lineNumber: headerLine,
+      sku: '',
+      severity: 'error',
+      reason: `Missing required column(s): ${missingColumns.map(d => d.label).join(', ')}`
+    });
+    return { ...EMPTY_IMPORT, issues, rowCount: rows.length, sections };
+  }
+
+  const requiredWidth = Math.max(...COLUMN_DEFINITIONS.filter(d => d.required).map(d => mapping[d.key] as number)) + 1;
+
+  const cell = (parts: string[], key: ColumnKey) => {
+    const idx = mapping[key];
+    return idx === undefined ? '' : (parts[idx] || '').trim();
+  };
+
+  const parsePrice = (val: string): number | null => {
+    // Stray quotes come from cells whose opening quote was lost in the export
+    const cleaned = val.replace(/[$,\s"]/g, '');
+    if (!cleaned) return null;
+    const num = Number(cleaned);
+    return Number.isFinite(num) ? num : null;
   };
 
+  // Keyed by line + family + parent so parents sharing a name under different families stay apart
   const groups: Record<string, ProductGroup> = {};
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    
-    // Stop parsing if we hit the second section header (SCSClass)
-    // This prevents the secondary table from polluting the main product list
-    if (line.toLowerCase().startsWith('scsclass')) break; 
-    
-    if (!line || line.toLowerCase().startsWith('productlinedescription')) continue;
-
-    const parts = parseLine(line);
-    if (parts.length < 11) continue;
-
-    // Standard Report Structure:
-    // 0: ProductLine, 1: Family, 2: Parent, 3: SKU, 4: Description, 5: UOM, 6: STD, 8: Floor, 9: Give, 10: GSA, 13: Weight
-    const parentName = parts[2] || 'Uncategorized';
-    const family = parts[1] || 'General';
-
-    if (!groups[parentName]) {
-      groups[parentName] = {
+  const skuGroups = new Map<string, ProductGroup>();
+  const groupsByParentName = new Map<string, ProductGroup>();
+
+  for (const { lineNumber, endLineNumber, parts } of rows) {
+    const sku = cell(parts, 'sku');
+    const report = (severity: ImportIssueSeverity, reason: string) =>
+      issues.push({ lineNumber, ...(endLineNumber > lineNumber ? { endLineNumber } : {}), sku, severity, reason });
+
+    if (parts.length < requiredWidth) {
+      report('error', `Row has ${parts.length} fields, expected at least ${requiredWidth}`);
+      continue;
+    }
+    if (!sku) {
+      report('error', 'Missing SKU');
+      continue;
+    }
+
+    const productLine = cell(parts, 'productLine');
+    const parentName = cell(parts, 'parentName') || 'Uncategorized';
+    const family = cell(parts, 'family') || 'General';
+    const key = groupKey(productLine, family, parentName);
+
+    const existingGroup = skuGroups.get(sku);
+    if (existingGroup) {
+      if (existingGroup.id === key) {
+        report('warning', 'Duplicate SKU row ignored');
+      } else {
+        report('error', `Duplicate SKU already listed under "${formatGroupPath(existingGroup)}"`);
+      }
+      continue;
+    }
+
+    const stdPrice = parsePrice(cell(parts, 'stdPrice'));
+    const floorPrice = parsePrice(cell(parts, 'floorPrice'));
+    const givePrice = parsePrice(cell(parts, 'givePrice'));
+    const gsaPrice = parsePrice(cell(parts, 'gsaPrice'));
+    if (stdPrice === null || floorPrice === null || givePrice === null || gsaPrice === null) {
+      const missing = [['Standard', stdPrice], ['Floor', floorPrice], ['Give', givePrice], ['GSA', gsaPrice]]
+        .filter(([, value]) => value === null)
+        .map(([label]) => label);
+      report('error', `Missing or non-numeric price: ${missing.join(', ')}`);
+      continue;
+    }
+
+    if (floorPrice > stdPrice) {
+      report('warning', `Floor ${formatCurrency(floorPrice)} is above Standard ${formatCurrency(stdPrice)}`);
+    }
+    if (gsaPrice === 0) {
+      report('warning', 'GSA price is $0.00');
+    }
+
+    const rawWeight = cell(parts, 'weight');
+    const weight = Number(rawWeight);
+    if (rawWeight && !Number.isFinite(weight)) {
+      report('warning', `Non-numeric weight "${rawWeight}" treated as 0`);
+    }
+
+    if (!groups[key]) {
+      groups[key] = {
+        id: key,
+        productLine,
         parentName,
         family,
         variants: []
       };
+      const namesake = groupsByParentName.get(parentName);
+      if (namesake) {
+        report('warning', `"${parentName}" is also listed under "${formatGroupPath(namesake)}"; kept as separate products`);
+      } else {
+        groupsByParentName.set(parentName, groups[key]);
+      }
     }
-    
-    const cleanPrice = (val: string) => {
-      if (!val) return 0;
-      return parseFloat(val.replace(/[$,\s]/g, '')) || 0;
-    };
-    
-    // Prevent duplicate SKUs within the same group
-    const sku = parts[3];
-    if (groups[parentName].variants.some(v => v.sku === sku)) continue;
-
-    groups[parentName].variants.push({
-      productLine: parts[0],
+    skuGroups.set(sku, groups[key]);
+
+    const description = cell(parts, 'description');
+    const unit = cell(parts, 'unit');
+    const classCode = cell(parts, 'classCode');
+    groups[key].variants.push({
+      productLine,
       family: family,
       sku: sku,
-      description: parts[4],
-      unit: parts[5],
-      stdPrice: cleanPrice(parts[6]),
-      floorPrice: cleanPrice(parts[8]),
-      givePrice: cleanPrice(parts[9]),
-      gsaPrice: cleanPrice(parts[10]),
-      weight: parseFloat(parts[13]) || 0
+      description,
+      unit,
+      stdPrice,
+      floorPrice,
+      givePrice,
+      gsaPrice,
+      weight: Number.isFinite(weight) ? weight : 0,
+      discountPercent: parseFloat(cell(parts, 'discountPercent')) || 0,
+      quantityCode: cell(parts, 'quantityCode'),
+      dotClass: cell(parts, 'dotClass'),
+      location: cell(parts, 'location'),
+      productInformationCode: cell(parts, 'productInformationCode'),
+      accessories: parseAccessories(cell(parts, 'accessories')),
+      packaging: parsePackaging(description, unit),
+      classification: classCode ? { code: classCode, description: '' } : null
     });
   }
 
-  return Object.values(groups).sort((a, b) => a.parentName.localeCompare(b.parentName));
+  const sortedGroups = Object.values(groups).sort((a, b) =>
+    a.parentName.localeCompare(b.parentName) || a.family.localeCompare(b.family) || a.productLine.localeCompare(b.productLine));
+  const classifiedSkuCount = linkClassifications(sortedGroups, sections.filter(s => s.key === CLASSIFICATION_SECTION), issues);
+
+  return {
+    groups: sortedGroups,
+    issues,
+    rowCount: rows.length,
+    skuCount: skuGroups.size,
+    sections,
+    classifiedSkuCount
+  };
+};
+
+export const buildVariantIndex = (groups: ProductGroup[]): Map<string, ProductVariant> => {
+  const index = new Map<string, ProductVariant>();
+  groups.forEach(g => g.variants.forEach(v => index.set(v.sku, v)));
+  return index;
+};
+
+export const getTierPrice = (variant: ProductVariant, tier: PriceTier): number => {
+  switch (tier) {
+    case PriceTier.Floor: return variant.floorPrice;
+    case PriceTier.Give: return variant.givePrice;
+    case PriceTier.GSA: return variant.gsaPrice;
+    default: return variant.stdPrice;
+  }
 };
 
 export const formatCurrency = (value: number) => {
@@ -91,3 +238,21 @@ export const formatCurrency = (value: number) => {
     currency: 'USD',
   }).format(value);
 };
+
+const csvCell = (value: string | number) => {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCSV = (rows: (string | number)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\r\n');
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox and Safari cancel the download if the URL is revoked before the click is handled
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -1,6 +1,35 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
+
+const listFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? listFiles(path.join(dir, entry.name)) : [path.join(dir, entry.name)])
+    : [];
+
+// Emits sw.js with every built asset and public file in its precache list, so the app runs with no network
+const offlinePlugin = (): Plugin => ({
+  name: 'state-chemical-offline',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const urls = [
+      '/',
+      '/index.html',
+      // Every browser with service workers reads woff2, so the woff fallbacks aren't worth caching
+      ...Object.keys(bundle).filter(file => !file.endsWith('.woff')).map(file => `/${file}`),
+      ...listFiles(publicDir).map(file => `/${path.relative(publicDir, file).split(path.sep).join('/')}`),
+    ];
+    const version = Date.now().toString(36);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('__CACHE_VERSION__', JSON.stringify(version))
+      .replace('__PRECACHE_URLS__', JSON.stringify(Array.from(new Set(urls))));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +38,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tailwindcss(), offlinePlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,205 @@
+
+import { toCSV } from './utils';
+import { COLUMN_DEFINITIONS, detectColumnMapping } from './columns';
+import { findReportSection } from './sections';
+
+// Reads .xlsx workbooks without a spreadsheet library: the file is a zip of XML parts, unzipped with the
+// browser's DecompressionStream. Cells are read as their stored text, so SKUs like 124188LB and leading
+// zeros in text cells survive exactly as the pricing team typed them.
+
+export interface WorkbookSheet {
+  name: string;
+  rows: string[][];
+}
+
+export interface SheetSummary {
+  index: number;
+  name: string;
+  rowCount: number;
+  header: string[];
+  // Required catalog columns recognised in the header
+  matchedColumns: number;
+  // Label of the report section (e.g. SCSClass) when the sheet holds one instead of products
+  sectionLabel: string | null;
+}
+
+export const isWorkbookFile = (fileName: string) => /\.xlsx$/i.test(fileName);
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipEntries = (view: DataView): ZipEntry[] => {
+  // End of central directory record: signature 0x06054b50, searched backwards past any comment
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= Math.max(0, view.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a valid .xlsx file (zip directory not found).');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Not a valid .xlsx file (corrupt zip directory).');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readZipEntry = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const local = entry.localHeaderOffset;
+  const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method === 8) return new TextDecoder().decode(await inflateRaw(data));
+  throw new Error(`Unsupported compression in ${entry.name}.`);
+};
+
+const parseXML = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const elements = (parent: Document | Element, tag: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', tag));
+
+// Rich text runs are concatenated; phonetic guides (rPh) are not part of the value
+const textContent = (el: Element) =>
+  elements(el, 't').filter(t => (t.parentNode as Element | null)?.localName !== 'rPh').map(t => t.textContent || '').join('');
+
+// "AB12" -> 27
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Binary floats like 15.000000000000002 are written back the way Excel displays them
+const formatNumber = (raw: string) => {
+  const num = Number(raw);
+  return Number.isFinite(num) ? String(parseFloat(num.toPrecision(15))) : raw;
+};
+
+const readSheetRows = (xml: string, sharedStrings: string[]): string[][] => {
+  const rows: string[][] = [];
+  elements(parseXML(xml), 'row').forEach((rowEl, i) => {
+    const rowNumber = parseInt(rowEl.getAttribute('r') || '', 10);
+    const rowIdx = Number.isFinite(rowNumber) ? rowNumber - 1 : i;
+    const cells: string[] = [];
+    let nextCol = 0;
+    elements(rowEl, 'c').forEach(c => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : nextCol;
+      nextCol = col + 1;
+      const type = c.getAttribute('t');
+      const v = elements(c, 'v')[0]?.textContent ?? '';
+      let value: string;
+      if (type === 's') value = sharedStrings[parseInt(v, 10)] ?? '';
+      else if (type === 'inlineStr') value = textContent(c);
+      else if (type === 'b') value = v === '1' ? 'TRUE' : 'FALSE';
+      else if (type === 'str' || type === 'e') value = v;
+      else value = v === '' ? '' : formatNumber(v);
+      cells[col] = value;
+    });
+    rows[rowIdx] = Array.from(cells, cell => cell ?? '');
+  });
+  // Blank rows are kept so line numbers in the import report match the spreadsheet
+  return Array.from(rows, row => row ?? []);
+};
+
+const resolveTarget = (target: string) =>
+  target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<WorkbookSheet[]> => {
+  const view = new DataView(buffer);
+  const entries = new Map(readZipEntries(view).map(e => [e.name, e]));
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(view, entry) : null;
+  };
+
+  const workbookXml = await read('xl/workbook.xml');
+  if (!workbookXml) throw new Error('Not an Excel workbook (xl/workbook.xml is missing).');
+
+  const relsXml = await read('xl/_rels/workbook.xml.rels');
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    elements(parseXML(relsXml), 'Relationship').forEach(rel => {
+      targets.set(rel.getAttribute('Id') || '', resolveTarget(rel.getAttribute('Target') || ''));
+    });
+  }
+
+  const sharedXml = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedXml ? elements(parseXML(sharedXml), 'si').map(textContent) : [];
+
+  const sheets: WorkbookSheet[] = [];
+  const sheetEls = elements(parseXML(workbookXml), 'sheet');
+  for (let i = 0; i < sheetEls.length; i++) {
+    const el = sheetEls[i];
+    const relId = el.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+      || el.getAttribute('r:id') || '';
+    const xml = await read(targets.get(relId) || `xl/worksheets/sheet${i + 1}.xml`);
+    if (xml === null) continue;
+    sheets.push({ name: el.getAttribute('name') || `Sheet${i + 1}`, rows: readSheetRows(xml, sharedStrings) });
+  }
+  return sheets;
+};
+
+const firstRow = (rows: string[][]) => rows.find(r => r.some(cell => cell.trim())) || [];
+
+export const summarizeSheets = (sheets: WorkbookSheet[]): SheetSummary[] =>
+  sheets.map((sheet, index) => {
+    const header = firstRow(sheet.rows);
+    const mapping = detectColumnMapping(header);
+    return {
+      index,
+      name: sheet.name,
+      rowCount: Math.max(0, sheet.rows.filter(r => r.some(cell => cell.trim())).length - 1),
+      header,
+      matchedColumns: COLUMN_DEFINITIONS.filter(d => d.required && mapping[d.key] !== undefined).length,
+      sectionLabel: findReportSection(header)?.label ?? null,
+    };
+  });
+
+// The sheet with the most recognised catalog columns, ties going to the first
+export const pickCatalogSheet = (summaries: SheetSummary[]): number => {
+  const candidates = summaries.filter(s => !s.sectionLabel && s.rowCount > 0);
+  if (candidates.length === 0) return 0;
+  return candidates.reduce((best, s) => (s.matchedColumns > best.matchedColumns ? s : best)).index;
+};
+
+// Lays the chosen sheet out like the CSV report. Section tables kept on their own sheets (SCSClass...) are
+// appended after a blank line, which is where the CSV export puts them, unless the chosen sheet has them.
+export const workbookToCSV = (sheets: WorkbookSheet[], sheetIndex: number): string => {
+  const chosen = sheets[sheetIndex];
+  if (!chosen) return '';
+  const rows = [...chosen.rows];
+  const present = new Set(chosen.rows.map(r => findReportSection(r)?.key).filter(Boolean));
+  sheets.forEach((sheet, i) => {
+    const section = findReportSection(firstRow(sheet.rows));
+    if (i === sheetIndex || !section || present.has(section.key)) return;
+    present.add(section.key);
+    rows.push([], ...sheet.rows.filter(r => r.some(cell => cell.trim())));
+  });
+  return toCSV(rows);
+};